@@ -3,55 +3,60 @@ import { homedir } from "os"
 import { dirname, normalize } from "path"
 import { parse, stringify } from "yaml"
 
+type GithubCliHostEntry = { user?: string; oauth_token?: string; git_protocol?: "ssh" | "https" }
+
+/** Get the credentials for every host in the github cli config */
 export const getGithubCliCredentials = () => {
   const githubCliConfigPath = homedir() + "/.config/gh/hosts.yml"
-  if (existsSync(githubCliConfigPath)) {
-    const githubCliConfig = parse(readFileSync(githubCliConfigPath, "utf8")) as
-      | undefined
-      | {
-          ["github.com"]?: { user?: string; oauth_token?: string; git_protocol?: "ssh" | "https" }
-        }
-    if (
-      typeof githubCliConfig !== "object" ||
-      !githubCliConfig ||
-      !githubCliConfig["github.com"] ||
-      typeof githubCliConfig["github.com"] !== "object"
-    ) {
-      return
-    }
-    const githubComObject = githubCliConfig["github.com"]
-    return {
-      accessToken: githubComObject.oauth_token,
-      user: githubComObject.user,
-      protocol: githubComObject.git_protocol,
-    }
+  if (!existsSync(githubCliConfigPath)) {
+    return []
   }
+  const githubCliConfig = parse(readFileSync(githubCliConfigPath, "utf8")) as
+    | undefined
+    | Record<string, GithubCliHostEntry | undefined>
+  if (typeof githubCliConfig !== "object" || !githubCliConfig) {
+    return []
+  }
+  return Object.entries(githubCliConfig).flatMap(([host, hostObject]) => {
+    if (!hostObject || typeof hostObject !== "object") {
+      return []
+    }
+    return [
+      {
+        host,
+        accessToken: hostObject.oauth_token,
+        user: hostObject.user,
+        protocol: hostObject.git_protocol,
+      },
+    ]
+  })
 }
 
-export const setGithubCliCredentials = (accessToken: string, user?: string, protocol?: "https" | "ssh") => {
+export const setGithubCliCredentials = (
+  host: string,
+  accessToken: string,
+  user?: string,
+  protocol?: "https" | "ssh"
+) => {
   const githubCliConfigPath = homedir() + "/.config/gh/hosts.yml"
   const configExists = existsSync(githubCliConfigPath)
   const parsedConfig =
     configExists &&
-    (parse(readFileSync(githubCliConfigPath, "utf8")) as
-      | undefined
-      | {
-          ["github.com"]?: { user?: string; oauth_token?: string; git_protocol?: "ssh" | "https" }
-        })
+    (parse(readFileSync(githubCliConfigPath, "utf8")) as undefined | Record<string, GithubCliHostEntry | undefined>)
   if (configExists && (!parsedConfig || typeof parsedConfig !== "object")) {
     throw new Error("The github cli config is not a valid json")
   }
-  if (configExists && parsedConfig && parsedConfig["github.com"] && typeof parsedConfig["github.com"] !== "object") {
-    throw new Error("Config entry for github.com needs to be an object")
+  if (configExists && parsedConfig && parsedConfig[host] && typeof parsedConfig[host] !== "object") {
+    throw new Error(`Config entry for ${host} needs to be an object`)
   }
   if (!configExists) {
-    mkdirSync(dirname(normalize(githubCliConfigPath)))
+    mkdirSync(dirname(normalize(githubCliConfigPath)), { recursive: true })
   }
 
   const newConfig = {
     ...(parsedConfig || {}),
-    ["github.com"]: {
-      ...((parsedConfig || {})["github.com"] || {}),
+    [host]: {
+      ...((parsedConfig || {})[host] || {}),
       oauth_token: accessToken,
       ...(user ? { user } : {}),
       ...(protocol ? { git_protocol: protocol } : {}),
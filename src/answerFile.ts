@@ -0,0 +1,104 @@
+import { EventEmitter } from "events"
+import { readFileSync, writeFileSync } from "fs"
+import { PromptObject } from "prompts"
+import { WizardIo } from "wizardIo"
+
+/** An answer to a single question of the wizard. `back` means that the question was left with escape */
+export type RecordedAnswer = { name: string; answer?: unknown; back?: true }
+
+/** Read the answers of a recorded session. Throws, if the file is not an answer file */
+export const readAnswerFile = (file: string): RecordedAnswer[] => {
+  const answers = (() => {
+    try {
+      return JSON.parse(readFileSync(file, "utf8")) as unknown
+    } catch (error) {
+      throw new Error(`Failed to read the answers from ${file}: ${(error as Error).message}`)
+    }
+  })()
+
+  if (
+    !Array.isArray(answers) ||
+    !answers.every(answer => answer && typeof answer === "object" && typeof answer.name === "string")
+  ) {
+    throw new Error(`${file} is not an answer file, expected a list of { "name": ..., "answer": ... } objects`)
+  }
+  return answers as RecordedAnswer[]
+}
+
+export const writeAnswerFile = (file: string, answers: RecordedAnswer[]) => {
+  writeFileSync(file, JSON.stringify(answers, undefined, 2) + "\n")
+}
+
+/** Get the io, that adds every answer to the given list in the order the questions were asked */
+export const recordAnswers = (io: WizardIo, answers: RecordedAnswer[]): WizardIo => {
+  let lastKeyName: string | undefined
+  io.input?.on("keypress", (_: string | undefined, key: { name?: string } | undefined) => {
+    lastKeyName = key?.name
+  })
+
+  const prompt = ((questions, options) =>
+    io.prompt(questions, {
+      ...options,
+      onSubmit: (question, answer, submittedAnswers) => {
+        // The autocomplete prompt does not cancel on escape, it just returns nothing
+        answers.push(
+          answer === undefined && lastKeyName === "escape"
+            ? { name: String(question.name), back: true }
+            : { name: String(question.name), answer }
+        )
+        return options?.onSubmit?.(question, answer, submittedAnswers)
+      },
+      onCancel: (question, submittedAnswers) => {
+        if (lastKeyName === "escape") {
+          answers.push({ name: String(question.name), back: true })
+        }
+        return options?.onCancel?.(question, submittedAnswers)
+      },
+    })) as WizardIo["prompt"]
+
+  return { ...io, prompt: Object.assign(prompt, io.prompt) }
+}
+
+/**
+ * Get the io, that answers the questions with the recorded answers instead of asking the user.
+ * The answers are removed from the list as they are used. Throws, if the wizard asks a question that was not recorded next
+ */
+export const replayAnswers = (io: WizardIo, answers: RecordedAnswer[]): WizardIo => {
+  const input = new EventEmitter()
+
+  const replayQuestion = (question: PromptObject): PromptObject => ({
+    ...question,
+    // The type is resolved right before the question is asked, so this is where the answer gets injected
+    type: (previous, values, prompt) => {
+      const type = typeof question.type === "function" ? question.type(previous, values, prompt) : question.type
+      if (!type) {
+        return type
+      }
+
+      const name = String(question.name)
+      const recorded = answers.shift()
+      if (!recorded) {
+        throw new Error(`The answer file has no answer for the question "${name}"`)
+      }
+      if (recorded.name !== name) {
+        throw new Error(`The answer file expected the question "${recorded.name}", but the wizard asked "${name}"`)
+      }
+
+      if (recorded.back) {
+        input.emit("keypress", undefined, { name: "escape" })
+        io.prompt.inject([new Error(`Went back from "${name}"`)])
+      } else {
+        io.prompt.inject([recorded.answer])
+      }
+      return type
+    },
+  })
+
+  const prompt = ((questions, options) =>
+    io.prompt(
+      Array.isArray(questions) ? questions.map(replayQuestion) : replayQuestion(questions),
+      options
+    )) as WizardIo["prompt"]
+
+  return { ...io, prompt: Object.assign(prompt, io.prompt), input }
+}
@@ -0,0 +1,171 @@
+import { AsyncLocalStorage } from "async_hooks"
+import chalk from "chalk"
+import fetch, { Headers } from "node-fetch"
+import { getCurrentIo } from "wizardIo"
+
+export type ApiRequestOptions = {
+  method?: "GET" | "POST" | "PUT" | "PATCH" | "DELETE"
+  headers?: Record<string, string>
+  /** Sent as json, unless it is a string */
+  body?: unknown
+  /** Milliseconds until a single attempt is aborted. Defaults to 10 seconds */
+  timeout?: number
+  /**
+   * How often failed requests are retried. Defaults to 3 for GET requests. Changes are not retried by default,
+   * as a retry could repeat a change that went through before the connection failed
+   */
+  retries?: number
+  /** The longest time in seconds we wait for a rate limit to reset. Defaults to 60 seconds */
+  maxRateLimitWait?: number
+}
+
+export type ApiResponse = {
+  ok: true
+  status: number
+  headers: Headers
+  /** The parsed json body. Undefined if the body is not json */
+  data: unknown
+}
+
+export type ApiError = {
+  ok: false
+  type: "offline" | "timeout" | "network" | "rateLimited" | "http"
+  message: string
+  /** The status code, if the server responded */
+  status?: number
+  /** The parsed json body, if the server responded with json */
+  data?: unknown
+}
+
+export type ApiResult = ApiResponse | ApiError
+
+const baseUrlOverrides: Record<string, string> = {}
+
+/**
+ * Send all requests that start with the base url to another url instead. Used to point the api calls to a mock server
+ * @param override The url that replaces the base url. Removes the override, if it is undefined
+ */
+export const overrideBaseUrl = (baseUrl: string, override: string | undefined) => {
+  if (override === undefined) {
+    delete baseUrlOverrides[baseUrl]
+    return
+  }
+  baseUrlOverrides[baseUrl] = override
+}
+
+const applyBaseUrlOverrides = (url: string) => {
+  const baseUrl = Object.keys(baseUrlOverrides).find(baseUrl => url.startsWith(baseUrl))
+  return baseUrl ? `${baseUrlOverrides[baseUrl]}${url.slice(baseUrl.length)}` : url
+}
+
+const offlineMode = new AsyncLocalStorage<boolean>()
+
+/** Run the function in or out of offline mode. Offline mode blocks all of its requests, so nothing leaves the machine */
+export const runWithOfflineMode = <T>(offline: boolean, run: () => T) => offlineMode.run(offline, run)
+
+const sleep = (milliseconds: number) => new Promise(resolve => setTimeout(resolve, milliseconds))
+
+/** Get the seconds until we can send requests again or undefined if we are not rate limited */
+const getRateLimitWait = (status: number, headers: Headers) => {
+  const retryAfter = headers.get("retry-after")
+  if (retryAfter && (status === 403 || status === 429)) {
+    return Number(retryAfter) || 1
+  }
+  const reset = headers.get("x-ratelimit-reset")
+  if (headers.get("x-ratelimit-remaining") === "0" && reset && (status === 403 || status === 429)) {
+    return Math.max(Number(reset) - Math.floor(Date.now() / 1000), 1)
+  }
+  return undefined
+}
+
+const getErrorMessage = (data: unknown) => {
+  const message = data && typeof data === "object" ? (data as { message?: unknown }).message : undefined
+  return typeof message === "string" ? message : undefined
+}
+
+/**
+ * Send a request to a json api. Failed requests are retried with exponential backoff and rate limits are waited out.
+ * Never throws, errors are returned instead.
+ */
+export const apiRequest = async (url: string, options: ApiRequestOptions = {}): Promise<ApiResult> => {
+  const { method = "GET", timeout = 10000, retries = method === "GET" ? 3 : 0, maxRateLimitWait = 60 } = options
+  const body =
+    options.body === undefined || typeof options.body === "string" ? options.body : JSON.stringify(options.body)
+  if (offlineMode.getStore()) {
+    return { ok: false, type: "offline", message: `Did not send a request to ${url}, because offline mode is enabled` }
+  }
+  const targetUrl = applyBaseUrlOverrides(url)
+
+  let lastError: ApiError = { ok: false, type: "network", message: `Failed to reach ${url}` }
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    if (attempt > 0) {
+      await sleep(500 * 2 ** (attempt - 1))
+    }
+
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), timeout)
+    const response = await fetch(targetUrl, {
+      method,
+      headers: {
+        Accept: "application/json",
+        ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+        ...options.headers,
+      },
+      body,
+      signal: controller.signal,
+    }).catch((error: Error) => {
+      lastError =
+        error.name === "AbortError"
+          ? { ok: false, type: "timeout", message: `${url} did not respond within ${timeout / 1000} seconds` }
+          : { ok: false, type: "network", message: `Failed to reach ${url}: ${error.message}` }
+      return undefined
+    })
+    if (!response) {
+      clearTimeout(timer)
+      continue
+    }
+    const text = await response.text().catch(() => "")
+    clearTimeout(timer)
+    const data = (() => {
+      try {
+        return text ? (JSON.parse(text) as unknown) : undefined
+      } catch {
+        return undefined
+      }
+    })()
+
+    if (response.ok) {
+      return { ok: true, status: response.status, headers: response.headers, data }
+    }
+
+    const rateLimitWait = getRateLimitWait(response.status, response.headers)
+    if (rateLimitWait !== undefined) {
+      if (rateLimitWait > maxRateLimitWait || attempt === retries) {
+        return {
+          ok: false,
+          type: "rateLimited",
+          message: `Rate limited by ${new URL(url).host}, try again in ${rateLimitWait} seconds`,
+          status: response.status,
+          data,
+        }
+      }
+      getCurrentIo().log(chalk.yellow(`Rate limited by ${new URL(url).host}, waiting ${rateLimitWait} seconds`))
+      await sleep(rateLimitWait * 1000)
+      continue
+    }
+
+    lastError = {
+      ok: false,
+      type: "http",
+      message: getErrorMessage(data) ?? `${method} ${url} failed with status ${response.status}`,
+      status: response.status,
+      data,
+    }
+    // Client errors will not go away by retrying
+    if (response.status < 500) {
+      return lastError
+    }
+  }
+
+  return lastError
+}
@@ -0,0 +1,96 @@
+import { readAnswerFile, recordAnswers, RecordedAnswer, replayAnswers, writeAnswerFile } from "answerFile"
+import chalk from "chalk"
+import { runWizard } from "index"
+import { parseArguments, usage } from "parseArguments"
+import { exit } from "process"
+import { getSavedSession } from "sessionState"
+import { getUserConfig } from "userConfig"
+import { terminalIo } from "wizardIo"
+
+const main = async () => {
+  const commandLineArguments = (() => {
+    try {
+      return parseArguments(process.argv.slice(2))
+    } catch (error) {
+      console.error(chalk.red((error as Error).message))
+      console.error(usage)
+      exit(1)
+    }
+  })()
+
+  if (commandLineArguments.help) {
+    console.log(usage)
+    exit(0)
+  }
+
+  const userConfig = (() => {
+    try {
+      return getUserConfig()
+    } catch (error) {
+      console.error(chalk.red((error as Error).message))
+      exit(1)
+    }
+  })()
+
+  const { record, answers } = commandLineArguments
+  const replayedAnswers = (() => {
+    try {
+      return answers ? readAnswerFile(answers) : undefined
+    } catch (error) {
+      console.error(chalk.red((error as Error).message))
+      exit(1)
+    }
+  })()
+  const recordedAnswers: RecordedAnswer[] = []
+  const replayIo = replayedAnswers ? replayAnswers(terminalIo, replayedAnswers) : terminalIo
+  const saveRecording = () => record && writeAnswerFile(record, recordedAnswers)
+
+  const result = await runWizard(
+    { ...commandLineArguments.settings, ...(commandLineArguments.dryRun ? { dryRun: true } : {}) },
+    {
+      defaults: userConfig,
+      yes: commandLineArguments.yes,
+      createRepo: commandLineArguments.createRepo,
+      resume: commandLineArguments.resume,
+      io: record ? recordAnswers(replayIo, recordedAnswers) : replayIo,
+      // A saved session would add the question whether to resume it, so recordings always start fresh
+      saveSession: !record && !answers,
+      undoOnInterrupt: true,
+    }
+  ).catch(error => {
+    saveRecording()
+    console.error(chalk.red((error as Error).message))
+    exit(1)
+  })
+  saveRecording()
+
+  if (replayedAnswers && replayedAnswers.length > 0) {
+    console.error(
+      chalk.red(
+        `The wizard did not ask the question "${replayedAnswers[0].name}" from ${answers}. ` +
+          `${replayedAnswers.length} recorded answers were not used`
+      )
+    )
+    exit(1)
+  }
+
+  switch (result.status) {
+    case "cancelled":
+      console.log("Bye 👋")
+      if (getSavedSession()) {
+        console.log(`Run ${chalk.blue("create-typescript-thing --resume")} to continue where you left off`)
+      }
+      exit(0)
+      break
+    case "failed":
+      exit(1)
+      break
+    case "created":
+    case "dryRun":
+      exit(0)
+  }
+}
+
+main()
+
+export {}
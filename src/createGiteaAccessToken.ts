@@ -0,0 +1,26 @@
+import chalk from "chalk"
+import { getGiteaBaseUrl, getGiteaUserInfo } from "createGiteaRepo"
+import { WizardIo } from "wizardIo"
+
+/**
+ * Ask the user for an access token for a gitea or forgejo instance
+ * @returns The token or undefined, if the user canceled
+ */
+export const createGiteaAccessToken = async (io: WizardIo, host: string) => {
+  const tokenUrl = `${getGiteaBaseUrl(host)}/user/settings/applications`
+  io.log(`Create an access token with ${chalk.bold("read and write")} permissions for repositories at ${tokenUrl}`)
+
+  const result = await io.prompt({
+    type: "password",
+    name: "accessToken",
+    message: `Paste your access token for ${host}:`,
+    validate: async (accessToken: string) =>
+      accessToken
+        ? await getGiteaUserInfo(accessToken, host)
+            .then(() => true)
+            .catch(() => "That token does not work, please check that it has access to your user and repositories.")
+        : "You need to enter a token",
+  })
+
+  return (result.accessToken || undefined) as string | undefined
+}
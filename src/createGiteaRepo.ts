@@ -0,0 +1,219 @@
+import { apiRequest, ApiRequestOptions } from "apiClient"
+import { getNextPageUrl } from "createGithubRepo"
+import { RepositoryOptions } from "packageSettings"
+
+/**
+ * Get the base url of a gitea or forgejo instance.
+ * @param host The hostname of the instance. Can contain a protocol, if the instance is not served via https.
+ */
+export const getGiteaBaseUrl = (host: string) =>
+  /^https?:\/\//.test(host) ? host.replace(/\/+$/, "") : `https://${host}`
+
+/** Get the hostname that is used in ssh git urls */
+export const getGiteaSshHost = (host: string) => host.replace(/^https?:\/\//, "").replace(/[:/].*$/, "")
+
+const getGiteaApiUrl = (host: string) => `${getGiteaBaseUrl(host)}/api/v1`
+
+/** Send a request to the gitea api */
+const giteaApiRequest = async (accessToken: string, url: string, options: ApiRequestOptions = {}) =>
+  await apiRequest(url, { ...options, headers: { Authorization: `token ${accessToken}`, ...options.headers } })
+
+type GiteaUserInfo = {
+  username: string
+  name: string
+}
+const userInfoByToken: Record<string, undefined | Promise<GiteaUserInfo>> = {}
+export const getGiteaUserInfo = async (accessToken: string, host: string) => {
+  const cacheKey = `${host}/${accessToken}`
+  const prevPromise = userInfoByToken[cacheKey]
+  if (prevPromise) {
+    return prevPromise
+  }
+  const promise = (async () => {
+    const response = await giteaApiRequest(accessToken, `${getGiteaApiUrl(host)}/user`)
+    if (!response.ok) {
+      throw new Error(`Failed to get gitea user info: ${response.message}`)
+    }
+    const jsonResponse = response.data as undefined | { login?: string; full_name?: string }
+    if (!jsonResponse || !jsonResponse.login) {
+      throw new Error("Failed to get gitea user info")
+    }
+    const result = { username: jsonResponse.login, name: jsonResponse.full_name || jsonResponse.login }
+
+    return result
+  })() as Promise<GiteaUserInfo>
+
+  userInfoByToken[cacheKey] = promise
+  return promise
+}
+
+type GiteaRepoInfos = {
+  owner: string
+  visibility: "public" | "private"
+  archived: boolean
+  description?: string | undefined
+  name: string
+  fullName: string
+}[]
+/** Gitea does not return more than 50 repositories per page by default */
+const giteaPageSize = 50
+
+/** Get a page of repositories. Malformed repositories are skipped */
+const getGiteaRepoPage = async (
+  accessToken: string,
+  url: string
+): Promise<{ repos: GiteaRepoInfos; nextPageUrl?: string }> => {
+  const response = await giteaApiRequest(accessToken, url)
+  if (!response.ok) {
+    throw new Error(`Failed to get gitea repos: ${response.message}`)
+  }
+  const jsonResponse = response.data as
+    | undefined
+    | Array<{
+        name?: string
+        full_name?: string
+        description?: string
+        owner?: { login?: string }
+        private?: boolean
+        archived?: boolean
+      }>
+  if (!jsonResponse || !Array.isArray(jsonResponse)) {
+    throw new Error("Failed to get gitea repos")
+  }
+  const checkedRepos: GiteaRepoInfos = jsonResponse.flatMap(
+    ({ name, full_name, description, owner, private: isPrivate, archived }) => {
+      if (name && full_name && owner && owner.login && isPrivate != null && archived != null) {
+        return [
+          {
+            name: name,
+            fullName: full_name,
+            ...(description ? { description } : {}),
+            owner: owner.login,
+            visibility: isPrivate ? ("private" as const) : ("public" as const),
+            archived: archived,
+          },
+        ]
+      }
+      return []
+    }
+  )
+
+  // Older gitea versions do not send a Link header, but a full page means there may be another one
+  const nextPageUrl = getNextPageUrl(response.headers.get("link"))
+  if (nextPageUrl || jsonResponse.length < giteaPageSize) {
+    return { repos: checkedRepos, nextPageUrl }
+  }
+  const fallbackUrl = new URL(url)
+  fallbackUrl.searchParams.set("page", String(Number(fallbackUrl.searchParams.get("page") || "1") + 1))
+  return { repos: checkedRepos, nextPageUrl: fallbackUrl.toString() }
+}
+
+const reposByUser: Record<string, undefined | Promise<GiteaRepoInfos>> = {}
+/** Get all repositories of the user. The pages are loaded one after another */
+export const getGiteaRepos = async (accessToken: string, host: string) => {
+  const userInfo = await getGiteaUserInfo(accessToken, host)
+  const cacheKey = `${host}/${userInfo.username}`
+  const prevPromise = reposByUser[cacheKey]
+  if (prevPromise) {
+    return prevPromise
+  }
+  const promise = (async () => {
+    let page = await getGiteaRepoPage(accessToken, `${getGiteaApiUrl(host)}/user/repos?limit=${giteaPageSize}&page=1`)
+    const repos = [...page.repos]
+    while (page.nextPageUrl) {
+      page = await getGiteaRepoPage(accessToken, page.nextPageUrl)
+      repos.push(...page.repos)
+    }
+    return repos
+  })()
+  reposByUser[cacheKey] = promise
+  return promise
+}
+
+/**
+ * Create a new repository on a gitea or forgejo instance
+ * @param owner The user or organization that will own the repository
+ * @param onCreated Called as soon as the repository exists, before it gets configured. Configuring it can still fail
+ */
+export const createGiteaRepo = async (
+  accessToken: string,
+  owner: string,
+  name: string,
+  description: string,
+  host: string,
+  options: RepositoryOptions,
+  onCreated?: () => void
+) => {
+  const userInfo = await getGiteaUserInfo(accessToken, host)
+  const body = {
+    name: name,
+    description: description,
+    // Gitea has no internal repositories
+    private: options.visibility !== "public",
+    auto_init: options.autoInit,
+    ...(options.licenseTemplate ? { license: options.licenseTemplate } : {}),
+    ...(options.gitignoreTemplate ? { gitignores: options.gitignoreTemplate } : {}),
+    readme: "Default",
+  }
+
+  const createUrl =
+    owner === userInfo.username
+      ? `${getGiteaApiUrl(host)}/user/repos`
+      : `${getGiteaApiUrl(host)}/orgs/${encodeURIComponent(owner)}/repos`
+  const response = await giteaApiRequest(accessToken, createUrl, { method: "POST", body })
+  if (!response.ok) {
+    throw new Error(`Failed to create gitea repo: ${response.message}`)
+  }
+  // The repositories are loaded again, when they are needed
+  delete reposByUser[`${host}/${userInfo.username}`]
+  onCreated?.()
+
+  // The features can only be configured after the repository was created
+  const repoUrl = `${getGiteaApiUrl(host)}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(name)}`
+  const editResponse = await giteaApiRequest(accessToken, repoUrl, {
+    method: "PATCH",
+    body: {
+      website: options.homepage ?? `${getGiteaBaseUrl(host)}/${owner}/${name}`,
+      has_issues: options.hasIssues,
+      has_wiki: options.hasWiki,
+      has_projects: options.hasProjects,
+    },
+  })
+  if (!editResponse.ok) {
+    throw new Error(`Failed to configure gitea repo: ${editResponse.message}`)
+  }
+
+  if (options.topics.length) {
+    const topicsResponse = await giteaApiRequest(accessToken, `${repoUrl}/topics`, {
+      method: "PUT",
+      body: { topics: options.topics },
+    })
+    if (!topicsResponse.ok) {
+      throw new Error(`Failed to set the gitea repo topics: ${topicsResponse.message}`)
+    }
+  }
+}
+
+/** Delete a repository on a gitea or forgejo instance */
+export const deleteGiteaRepo = async (accessToken: string, fullName: string, host: string) => {
+  const userInfo = await getGiteaUserInfo(accessToken, host)
+  const response = await giteaApiRequest(accessToken, `${getGiteaApiUrl(host)}/repos/${fullName}`, {
+    method: "DELETE",
+  })
+  if (!response.ok) {
+    throw new Error(
+      `Failed to delete gitea repo, you can also delete it at ${getGiteaBaseUrl(host)}/${fullName}/settings`
+    )
+  }
+
+  delete reposByUser[`${host}/${userInfo.username}`]
+}
+
+export const getGiteaDefaultBranch = async (accessToken: string, fullName: string, host: string) => {
+  const response = await giteaApiRequest(accessToken, `${getGiteaApiUrl(host)}/repos/${fullName}`)
+  const jsonResponse = response.ok ? (response.data as undefined | { default_branch?: string }) : undefined
+  if (!jsonResponse || !jsonResponse.default_branch) {
+    return undefined
+  }
+  return jsonResponse.default_branch
+}
@@ -1,19 +1,28 @@
+import { apiRequest } from "apiClient"
 import chalk from "chalk"
 import clipboard from "clipboardy"
-import fetch from "node-fetch"
+import { defaultGithubHost, getUserInfo } from "createGithubRepo"
 import open from "open"
-import readline from "readline"
+import { WizardIo } from "wizardIo"
 
-const fetchCode = async (clientId: string) => {
-  const response = await fetch("https://github.com/login/device/code", {
+/** The client id of the create-typescript-thing oauth app on github.com */
+const clientId = "243bcc16248cdf06dce0"
+
+const fetchCode = async (clientId: string, scopes: string[]) => {
+  const response = await apiRequest("https://github.com/login/device/code", {
     method: "POST",
-    body: `{"client_id": "${clientId}", "scope": "repo"}`,
-    headers: {
-      "Content-Type": "application/json",
-      "Accept": "application/json",
-    },
+    body: { client_id: clientId, scope: scopes.join(" ") },
   })
-  const parts = await response.json()
+  if (!response.ok) {
+    throw new Error(`Failed to get device code: ${response.message}`)
+  }
+  const parts = (response.data ?? {}) as {
+    user_code?: string
+    device_code?: string
+    interval?: number
+    expires_in?: number
+    verification_uri?: string
+  }
 
   const userCode = parts.user_code
   const deviceCode = parts.device_code
@@ -33,20 +42,19 @@ const fetchToken = async (
   interval: number,
   clientId: string
 ): Promise<{ accessToken: string; tokenType: string; scope: string[] }> => {
-  const response = await fetch("https://github.com/login/oauth/access_token", {
+  const response = await apiRequest("https://github.com/login/oauth/access_token", {
     method: "POST",
-    body: JSON.stringify({
+    body: {
       grant_type: "urn:ietf:params:oauth:grant-type:device_code",
       device_code: deviceCode,
       client_id: clientId,
-    }),
-    headers: {
-      "Content-Type": "application/json",
-      "Accept": "application/json",
     },
   })
+  if (!response.ok) {
+    throw new Error(`Failed to get access token: ${response.message}`)
+  }
 
-  const jsonResponse = (await response.json()) as
+  const jsonResponse = response.data as
     | {
         error: "authorization_pending"
       }
@@ -88,24 +96,67 @@ const fetchToken = async (
   return { accessToken, tokenType, scope: scope.split(":").filter(scope => !!scope) }
 }
 
-export const createGithubAccessToken = async () => {
-  const clientId = "243bcc16248cdf06dce0"
-  const code = await fetchCode(clientId)
-  console.log(`Your one-time code: ${chalk.bold(code.userCode)}`)
-  const rl = readline.createInterface({ input: process.stdin, output: process.stdout })
+/**
+ * Ask the user for a personal access token. Used for github enterprise servers, as the oauth app only exists on github.com
+ * @returns The token or undefined, if the user canceled
+ */
+const askForPersonalAccessToken = async (io: WizardIo, host: string, scopes: string[]) => {
+  const tokenUrl = `https://${host}/settings/tokens/new?scopes=${scopes.join(",")}&description=create-typescript-thing`
+  io.log(`Create a personal access token with the ${chalk.bold(scopes.join(", "))} scope at ${tokenUrl}`)
+
+  const result = await io.prompt({
+    type: "password",
+    name: "accessToken",
+    message: `Paste your access token for ${host}:`,
+    validate: async (accessToken: string) =>
+      accessToken
+        ? await getUserInfo(accessToken, host)
+            .then(() => true)
+            .catch(() => `That token does not work, please check that it has the ${scopes.join(", ")} scope.`)
+        : "You need to enter a token",
+  })
 
-  rl.question(`${chalk.bold("Press enter")} to copy the code and open a browser at ${code.verificationUri}`, () => {
+  return (result.accessToken || undefined) as string | undefined
+}
+
+/**
+ * Get a new token for a github host
+ * @param io Where the code is shown and the questions are asked
+ * @param scopes The oauth scopes the token needs
+ */
+export const createGithubAccessToken = async (io: WizardIo, host: string, scopes = ["repo"]) => {
+  if (host !== defaultGithubHost) {
+    return await askForPersonalAccessToken(io, host, scopes)
+  }
+
+  const code = await fetchCode(clientId, scopes)
+  io.log(`Your one-time code: ${chalk.bold(code.userCode)}`)
+
+  // The user can also enter the code in a browser of their choice, so declining does not stop the sign in
+  const { openBrowser } = (await io.prompt({
+    type: "confirm",
+    name: "openBrowser",
+    message: `Copy the code and open a browser at ${code.verificationUri}?`,
+    initial: true,
+  })) as { openBrowser?: boolean }
+  if (openBrowser) {
     try {
       clipboard.writeSync(code.userCode)
     } catch (e) {
-      console.log("Failed to copy code to clipboard")
+      io.log("Failed to copy code to clipboard")
     }
     open(code.verificationUri)
-    rl.close()
-  })
+  } else {
+    io.log(`Enter the code at ${code.verificationUri}`)
+  }
 
   const tokenResponse = await fetchToken(code.deviceCode, code.interval, clientId)
-  rl.close()
 
   return tokenResponse.accessToken
 }
+
+/** Get the page where the user can revoke a token that was created by this tool */
+export const getTokenRevocationUrl = (host: string) =>
+  host === defaultGithubHost
+    ? `https://github.com/settings/connections/applications/${clientId}`
+    : `https://${host}/settings/tokens`
@@ -1,24 +1,61 @@
-import fetch from "node-fetch"
+import { apiRequest, ApiRequestOptions } from "apiClient"
+import { RepositoryOptions } from "packageSettings"
+
+export const defaultGithubHost = "github.com"
+
+/** Get the base url of the rest api for a github host. Github enterprise servers serve the api under /api/v3 */
+export const getGithubApiUrl = (host: string) =>
+  host === defaultGithubHost ? "https://api.github.com" : `https://${host}/api/v3`
+
+/** Send a request to the github api. The token is optional for public endpoints */
+export const githubApiRequest = async (accessToken: string | undefined, url: string, options: ApiRequestOptions = {}) =>
+  await apiRequest(url, {
+    ...options,
+    headers: {
+      Accept: "application/vnd.github+json",
+      ...(accessToken ? { Authorization: `token ${accessToken}` } : {}),
+      ...options.headers,
+    },
+  })
 
 type UserInfo = {
+  /** The username */
+  login: string
+  /** The display name. Same as the login if the user has not set a name */
   name: string
-  email: string
+  email?: string
+  /** The oauth scopes of the token. Undefined for fine-grained tokens, as they have permissions instead of scopes */
+  scopes?: string[]
 }
 const userInfoByToken: Record<string, undefined | Promise<UserInfo>> = {}
-export const getUserInfo = async (accessToken: string) => {
+export const getUserInfo = async (accessToken: string, host: string) => {
   const prevPromise = userInfoByToken[accessToken]
   if (prevPromise) {
     return prevPromise
   }
   const promise = (async () => {
-    const response = await fetch("https://api.github.com/user", {
-      headers: { Authorization: `token ${accessToken}`, Accept: "application/vnd.github+json" },
-    })
-    const jsonResponse = (await response.json()) as undefined | { name?: string; email?: string }
-    if (!jsonResponse || !jsonResponse.name || !jsonResponse.email) {
+    const response = await githubApiRequest(accessToken, `${getGithubApiUrl(host)}/user`)
+    if (!response.ok) {
+      throw new Error(`Failed to get user info: ${response.message}`)
+    }
+    const jsonResponse = response.data as undefined | { login?: string; name?: string; email?: string }
+    if (!jsonResponse || !jsonResponse.login) {
       throw new Error("Failed to get user info")
     }
-    const result = { name: jsonResponse.name, email: jsonResponse.email }
+    const scopesHeader = response.headers.get("x-oauth-scopes")
+    const result = {
+      login: jsonResponse.login,
+      name: jsonResponse.name || jsonResponse.login,
+      ...(jsonResponse.email ? { email: jsonResponse.email } : {}),
+      ...(scopesHeader !== null
+        ? {
+            scopes: scopesHeader
+              .split(",")
+              .map(scope => scope.trim())
+              .filter(scope => scope),
+          }
+        : {}),
+    }
 
     return result
   })() as Promise<UserInfo>
@@ -27,96 +64,317 @@ export const getUserInfo = async (accessToken: string) => {
   return promise
 }
 
-type RepoInfos = {
+/** Search github users by email or username. Returns the logins of the matches, which is empty if the search failed */
+export const searchGithubUsers = async (accessToken: string | undefined, query: string, host: string) => {
+  // The search is only used for guesses, so we do not wait for rate limits
+  const response = await githubApiRequest(
+    accessToken,
+    `${getGithubApiUrl(host)}/search/users?q=${encodeURIComponent(query)}`,
+    {
+      maxRateLimitWait: 0,
+    }
+  )
+  const items = response.ok ? (response.data as { items?: Array<{ login?: string }> } | undefined)?.items : undefined
+  return (items ?? []).flatMap(({ login }) => (login ? [login] : []))
+}
+
+type RepoInfo = {
   owner: string
   visibility: "public" | "private"
   archived: boolean
   description?: string | undefined
   name: string
   fullName: string
-}[]
-const reposByName: Record<string, undefined | Promise<RepoInfos>> = {}
-export const getUserRepos = async (accessToken: string) => {
-  const userInfo = await getUserInfo(accessToken)
-  const prevPromise = reposByName[userInfo.name]
+}
+
+type RepoListing = {
+  /** The repos that were loaded so far. Repos from later pages get appended while they are loaded */
+  repos: RepoInfo[]
+  /** The number of malformed entries that were skipped */
+  skipped: number
+  /** Resolves with all repos after the last page was loaded */
+  complete: Promise<RepoInfo[]>
+}
+
+/** Get the url of the next page from a `Link` header */
+export const getNextPageUrl = (linkHeader: string | null | undefined) =>
+  linkHeader
+    ?.split(",")
+    .map(link => link.match(/<([^>]+)>\s*;\s*rel="next"/)?.[1])
+    .find(url => url)
+
+const getRepoPage = async (accessToken: string, url: string) => {
+  const response = await githubApiRequest(accessToken, url)
+  if (!response.ok) {
+    throw new Error(`Failed to get user repos: ${response.message}`)
+  }
+  const jsonResponse = response.data as
+    | undefined
+    | Array<{
+        name?: string
+        full_name?: string
+        description?: string
+        owner?: { login?: string }
+        email?: string
+        visibility?: "public" | "private"
+        archived?: boolean
+      }>
+  if (!jsonResponse || !Array.isArray(jsonResponse)) {
+    throw new Error("Failed to get user repos")
+  }
+  const checkedRepos = jsonResponse.flatMap(({ name, full_name, description, owner, visibility, archived }) => {
+    if (name && full_name && owner && owner.login && visibility && archived != null) {
+      return [
+        {
+          name: name,
+          fullName: full_name,
+          ...(description ? { description } : {}),
+          owner: owner.login,
+          visibility: visibility,
+          archived: archived,
+        },
+      ]
+    }
+    return []
+  })
+
+  return {
+    repos: checkedRepos,
+    skipped: jsonResponse.length - checkedRepos.length,
+    nextPageUrl: getNextPageUrl(response.headers.get("link")),
+  }
+}
+
+const reposByName: Record<string, undefined | Promise<RepoListing>> = {}
+/**
+ * Start loading all repos of the user. Resolves as soon as the first page is loaded, the other pages are loaded in the background.
+ */
+export const listUserRepos = async (accessToken: string, host: string) => {
+  const userInfo = await getUserInfo(accessToken, host)
+  const cacheKey = `${host}/${userInfo.login}`
+  const prevPromise = reposByName[cacheKey]
   if (prevPromise) {
     return prevPromise
   }
   const promise = (async () => {
-    const response = await fetch("https://api.github.com/user/repos?sort=created&per_page=100&affiliation=owner", {
-      headers: { Authorization: `token ${accessToken}`, Accept: "application/json" },
-    })
-    const jsonResponse = (await response.json()) as
-      | undefined
-      | Array<{
-          name?: string
-          full_name?: string
-          description?: string
-          owner?: { login?: string }
-          email?: string
-          visibility?: "public" | "private"
-          archived?: boolean
-        }>
-    if (!jsonResponse || !Array.isArray(jsonResponse)) {
-      throw new Error("Failed to get user repos")
+    const firstPage = await getRepoPage(
+      accessToken,
+      `${getGithubApiUrl(host)}/user/repos?sort=created&per_page=100&affiliation=owner,organization_member`
+    )
+    const listing: RepoListing = {
+      repos: [...firstPage.repos],
+      skipped: firstPage.skipped,
+      complete: Promise.resolve([]),
     }
-    const checkedRepos = jsonResponse?.flatMap(({ name, full_name, description, owner, visibility, archived }) => {
-      if (name && full_name && owner && owner.login && visibility && archived != null) {
-        return [
-          {
-            name: name,
-            fullName: full_name,
-            ...(description ? { description } : {}),
-            owner: owner.login,
-            visibility: visibility,
-            archived: archived,
-          },
-        ]
+    listing.complete = (async () => {
+      let nextPageUrl = firstPage.nextPageUrl
+      while (nextPageUrl) {
+        const page = await getRepoPage(accessToken, nextPageUrl)
+        listing.repos.push(...page.repos)
+        listing.skipped += page.skipped
+        nextPageUrl = page.nextPageUrl
       }
-      return []
-    })
-    if (checkedRepos.length !== jsonResponse.length) {
-      throw new Error("Got invalid repos")
+      return listing.repos
+    })()
+    // Errors are reported to everyone who waits for the complete listing
+    listing.complete.catch(() => undefined)
+    return listing
+  })()
+  reposByName[cacheKey] = promise
+  return promise
+}
+
+/** Get all repos of the user */
+export const getUserRepos = async (accessToken: string, host: string) =>
+  (await listUserRepos(accessToken, host)).complete
+
+const orgsByUser: Record<string, undefined | Promise<string[]>> = {}
+/** Get the logins of all organizations the token can access */
+export const getUserOrgs = async (accessToken: string, host: string) => {
+  const userInfo = await getUserInfo(accessToken, host)
+  const cacheKey = `${host}/${userInfo.login}`
+  const prevPromise = orgsByUser[cacheKey]
+  if (prevPromise) {
+    return prevPromise
+  }
+  const promise = (async () => {
+    const response = await githubApiRequest(accessToken, `${getGithubApiUrl(host)}/user/orgs?per_page=100`)
+    if (!response.ok) {
+      throw new Error(`Failed to get user organizations: ${response.message}`)
+    }
+    const jsonResponse = response.data as undefined | Array<{ login?: string }>
+    if (!jsonResponse || !Array.isArray(jsonResponse)) {
+      throw new Error("Failed to get user organizations")
     }
-    return checkedRepos
+    return jsonResponse.flatMap(({ login }) => (login ? [login] : []))
   })()
-  reposByName[userInfo.name] = promise
+  orgsByUser[cacheKey] = promise
   return promise
 }
 
-export const createGithubRepo = async (accessToken: string, name: string, description: string) => {
-  const userInfo = await getUserInfo(accessToken)
-  const body = {
-    name: name,
-    description: description,
-    homepage: `https://github.com/${userInfo.name}/${name}`,
-    private: false,
-    has_projects: false,
-    has_wiki: false,
-    auto_init: true,
-    license_template: "MIT",
-    has_downloads: false,
+export type MissingRepoPermissions = {
+  message: string
+  /** The scopes to request when signing in again */
+  scopes: string[]
+  /** True if the permissions of the token can not be checked, so it may still work */
+  unverified?: boolean
+}
+
+/**
+ * Check if a token can create a repository, before trying to create it.
+ * Fine-grained tokens do not expose their permissions, so they are reported as unverified.
+ * @returns What is missing and the scopes that need to be requested or undefined if the token should work
+ */
+export const getMissingRepoPermissions = async (
+  accessToken: string,
+  host: string,
+  visibility: RepositoryOptions["visibility"]
+): Promise<MissingRepoPermissions | undefined> => {
+  if (accessToken.startsWith("ghs_")) {
+    return {
+      message: "App installation tokens, like the GITHUB_TOKEN in github actions, can not create repositories.",
+      scopes: ["repo"],
+    }
   }
 
-  const response = await fetch("https://api.github.com/user/repos", {
-    headers: { Authorization: `token ${accessToken}`, Accept: "application/vnd.github+json" },
+  const { scopes } = await getUserInfo(accessToken, host)
+  if (!scopes) {
+    return {
+      message:
+        "Fine-grained tokens do not tell their permissions, so I can not check if it can create repositories. " +
+        "It needs read and write access to the Administration permission of the owner.",
+      scopes: ["repo"],
+      unverified: true,
+    }
+  }
+
+  const sufficientScopes = visibility === "public" ? ["repo", "public_repo"] : ["repo"]
+  if (sufficientScopes.some(scope => scopes.includes(scope))) {
+    return undefined
+  }
+  return {
+    message: `Creating a ${visibility} repository needs the ${sufficientScopes.join(
+      " or "
+    )} scope, but the token only has ${scopes.length ? `the scopes ${scopes.join(", ")}` : "no scopes"}.`,
+    scopes: ["repo"],
+  }
+}
+
+export type GithubApiRequest = { method: "POST" | "PUT"; url: string; body: unknown }
+
+/**
+ * Get the api requests that create a new github repo. Nothing is sent yet.
+ * @param owner The user or organization that will own the repository
+ */
+export const getCreateGithubRepoRequests = async (
+  accessToken: string,
+  owner: string,
+  name: string,
+  description: string,
+  host: string,
+  options: RepositoryOptions
+) => {
+  const userInfo = await getUserInfo(accessToken, host)
+  const createRequest: GithubApiRequest = {
     method: "POST",
-    body: JSON.stringify(body),
-  })
-  if (response.status !== 201) {
-    throw new Error("Failed to create repo")
+    url:
+      owner === userInfo.login
+        ? `${getGithubApiUrl(host)}/user/repos`
+        : `${getGithubApiUrl(host)}/orgs/${encodeURIComponent(owner)}/repos`,
+    body: {
+      name: name,
+      description: description,
+      homepage: options.homepage ?? `https://${host}/${owner}/${name}`,
+      private: options.visibility !== "public",
+      // Only organization repositories can be internal
+      ...(owner !== userInfo.login ? { visibility: options.visibility } : {}),
+      has_issues: options.hasIssues,
+      has_projects: options.hasProjects,
+      has_wiki: options.hasWiki,
+      auto_init: options.autoInit,
+      ...(options.licenseTemplate ? { license_template: options.licenseTemplate } : {}),
+      ...(options.gitignoreTemplate ? { gitignore_template: options.gitignoreTemplate } : {}),
+      has_downloads: false,
+    },
+  }
+  const topicsRequest: GithubApiRequest | undefined = options.topics.length
+    ? { method: "PUT", url: `${getGithubApiUrl(host)}/repos/${owner}/${name}/topics`, body: { names: options.topics } }
+    : undefined
+
+  return { createRequest, topicsRequest }
+}
+
+const sendGithubApiRequest = async (accessToken: string, request: GithubApiRequest) =>
+  await githubApiRequest(accessToken, request.url, { method: request.method, body: request.body })
+
+/**
+ * Create a new github repo
+ * @param owner The user or organization that will own the repository
+ * @param onCreated Called as soon as the repository exists, before it gets configured. Configuring it can still fail
+ */
+export const createGithubRepo = async (
+  accessToken: string,
+  owner: string,
+  name: string,
+  description: string,
+  host: string,
+  options: RepositoryOptions,
+  onCreated?: () => void
+) => {
+  const userInfo = await getUserInfo(accessToken, host)
+  const { createRequest, topicsRequest } = await getCreateGithubRepoRequests(
+    accessToken,
+    owner,
+    name,
+    description,
+    host,
+    options
+  )
+
+  const response = await sendGithubApiRequest(accessToken, createRequest)
+  if (!response.ok) {
+    const permissionHint = accessToken.startsWith("github_pat_")
+      ? " Fine-grained tokens need the administration permission with write access."
+      : ""
+    throw new Error(`Failed to create repo: ${response.message}.${permissionHint}`)
   }
+  // The repositories are loaded again, when they are needed
+  delete reposByName[`${host}/${userInfo.login}`]
+  onCreated?.()
 
-  delete reposByName[userInfo.name]
-  await getUserRepos(accessToken)
+  if (topicsRequest) {
+    const topicsResponse = await sendGithubApiRequest(accessToken, topicsRequest)
+    if (!topicsResponse.ok) {
+      throw new Error(`Failed to set the repo topics: ${topicsResponse.message}`)
+    }
+  }
 }
 
-export const getDefaultBranch = async (accessToken: string, repoName: string) => {
-  const userInfo = await getUserInfo(accessToken)
-  const response = await fetch(`https://api.github.com/repos/${userInfo.name}/${repoName}`, {
-    headers: { Authorization: `token ${accessToken}`, Accept: "application/vnd.github+json" },
+/**
+ * Delete a github repo. The token needs the delete_repo scope
+ * @param fullName The name of the repo including the owner, e.g. octocat/hello-world
+ */
+export const deleteGithubRepo = async (accessToken: string, fullName: string, host: string) => {
+  const userInfo = await getUserInfo(accessToken, host)
+  const response = await githubApiRequest(accessToken, `${getGithubApiUrl(host)}/repos/${fullName}`, {
+    method: "DELETE",
   })
-  const jsonResponse = (await response.json().catch(() => undefined)) as undefined | { default_branch?: string }
+  if (!response.ok) {
+    throw new Error(
+      `Failed to delete repo. The token needs the delete_repo scope, you can also delete it at https://${host}/${fullName}/settings`
+    )
+  }
+
+  delete reposByName[`${host}/${userInfo.login}`]
+}
+
+/**
+ * Get the default branch of a repo
+ * @param fullName The name of the repo including the owner, e.g. octocat/hello-world
+ */
+export const getDefaultBranch = async (accessToken: string, fullName: string, host: string) => {
+  const response = await githubApiRequest(accessToken, `${getGithubApiUrl(host)}/repos/${fullName}`)
+  const jsonResponse = response.ok ? (response.data as undefined | { default_branch?: string }) : undefined
   if (!jsonResponse || !jsonResponse.default_branch) {
     return undefined
   }
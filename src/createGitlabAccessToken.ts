@@ -0,0 +1,26 @@
+import chalk from "chalk"
+import { getGitlabUserInfo } from "createGitlabRepo"
+import { WizardIo } from "wizardIo"
+
+/**
+ * Ask the user for a gitlab personal access token
+ * @returns The token or undefined, if the user canceled
+ */
+export const createGitlabAccessToken = async (io: WizardIo, host: string) => {
+  const tokenUrl = `https://${host}/-/user_settings/personal_access_tokens?name=create-typescript-thing&scopes=api`
+  io.log(`Create a personal access token with the ${chalk.bold("api")} scope at ${tokenUrl}`)
+
+  const result = await io.prompt({
+    type: "password",
+    name: "accessToken",
+    message: "Paste your gitlab access token:",
+    validate: async (accessToken: string) =>
+      accessToken
+        ? await getGitlabUserInfo(accessToken, host)
+            .then(() => true)
+            .catch(() => "That token does not work, please check that it has the api scope.")
+        : "You need to enter a token",
+  })
+
+  return (result.accessToken || undefined) as string | undefined
+}
@@ -0,0 +1,229 @@
+import { apiRequest, ApiRequestOptions, ApiResponse } from "apiClient"
+import { getNextPageUrl } from "createGithubRepo"
+import { RepositoryOptions } from "packageSettings"
+
+export const defaultGitlabHost = "gitlab.com"
+
+const getGitlabApiUrl = (host: string) => `https://${host}/api/v4`
+
+/** Send a request to the gitlab api */
+const gitlabApiRequest = async (accessToken: string, url: string, options: ApiRequestOptions = {}) =>
+  await apiRequest(url, { ...options, headers: { Authorization: `Bearer ${accessToken}`, ...options.headers } })
+
+type GitlabUserInfo = {
+  id: number
+  username: string
+  name: string
+}
+const userInfoByToken: Record<string, undefined | Promise<GitlabUserInfo>> = {}
+export const getGitlabUserInfo = async (accessToken: string, host: string) => {
+  const prevPromise = userInfoByToken[accessToken]
+  if (prevPromise) {
+    return prevPromise
+  }
+  const promise = (async () => {
+    const response = await gitlabApiRequest(accessToken, `${getGitlabApiUrl(host)}/user`)
+    if (!response.ok) {
+      throw new Error(`Failed to get gitlab user info: ${response.message}`)
+    }
+    const jsonResponse = response.data as undefined | { id?: number; username?: string; name?: string }
+    if (!jsonResponse || jsonResponse.id == null || !jsonResponse.username) {
+      throw new Error("Failed to get gitlab user info")
+    }
+    const result = { id: jsonResponse.id, username: jsonResponse.username, name: jsonResponse.name || "" }
+
+    return result
+  })() as Promise<GitlabUserInfo>
+
+  userInfoByToken[accessToken] = promise
+  return promise
+}
+
+/** Find a gitlab user by username. Returns undefined if there is no such user or the search failed */
+export const findGitlabUser = async (username: string, host: string) => {
+  // The search is only used for guesses, so we do not wait for rate limits
+  const response = await apiRequest(`${getGitlabApiUrl(host)}/users?username=${encodeURIComponent(username)}`, {
+    maxRateLimitWait: 0,
+  })
+  const users = response.ok ? (response.data as Array<{ username?: string } | undefined> | undefined) : undefined
+  return users?.[0]?.username
+}
+
+type GitlabProjectInfos = {
+  namespace: string
+  visibility: "public" | "private" | "internal"
+  archived: boolean
+  description?: string | undefined
+  name: string
+  /** The path of the project including the namespace */
+  fullName: string
+}[]
+
+/** Get the url of the next page. Gitlab sends a `Link` header, but the x-next-page header is more reliable behind proxies */
+const getNextGitlabPageUrl = (url: string, headers: ApiResponse["headers"]) => {
+  const linkUrl = getNextPageUrl(headers.get("link"))
+  if (linkUrl) {
+    return linkUrl
+  }
+  const nextPage = headers.get("x-next-page")
+  if (!nextPage) {
+    return undefined
+  }
+  const nextPageUrl = new URL(url)
+  nextPageUrl.searchParams.set("page", nextPage)
+  return nextPageUrl.toString()
+}
+
+/** Get a page of projects. Malformed projects are skipped */
+const getGitlabProjectPage = async (
+  accessToken: string,
+  url: string
+): Promise<{ projects: GitlabProjectInfos; nextPageUrl?: string }> => {
+  const response = await gitlabApiRequest(accessToken, url)
+  if (!response.ok) {
+    throw new Error(`Failed to get gitlab projects: ${response.message}`)
+  }
+  const jsonResponse = response.data as
+    | undefined
+    | Array<{
+        path?: string
+        path_with_namespace?: string
+        description?: string | null
+        namespace?: { full_path?: string }
+        visibility?: "public" | "private" | "internal"
+        archived?: boolean
+      }>
+  if (!jsonResponse || !Array.isArray(jsonResponse)) {
+    throw new Error("Failed to get gitlab projects")
+  }
+  const checkedProjects: GitlabProjectInfos = jsonResponse.flatMap(
+    ({ path, path_with_namespace, description, namespace, visibility, archived }) => {
+      if (path && path_with_namespace && namespace && namespace.full_path && visibility && archived != null) {
+        return [
+          {
+            name: path,
+            fullName: path_with_namespace,
+            ...(description ? { description } : {}),
+            namespace: namespace.full_path,
+            visibility: visibility,
+            archived: archived,
+          },
+        ]
+      }
+      return []
+    }
+  )
+  return { projects: checkedProjects, nextPageUrl: getNextGitlabPageUrl(url, response.headers) }
+}
+
+const projectsByUser: Record<string, undefined | Promise<GitlabProjectInfos>> = {}
+/** Get all projects the user is a member of. The pages are loaded one after another */
+export const getGitlabProjects = async (accessToken: string, host: string) => {
+  const userInfo = await getGitlabUserInfo(accessToken, host)
+  const cacheKey = `${host}/${userInfo.username}`
+  const prevPromise = projectsByUser[cacheKey]
+  if (prevPromise) {
+    return prevPromise
+  }
+  const promise = (async () => {
+    let page = await getGitlabProjectPage(
+      accessToken,
+      `${getGitlabApiUrl(host)}/projects?membership=true&order_by=created_at&per_page=100`
+    )
+    const projects = [...page.projects]
+    while (page.nextPageUrl) {
+      page = await getGitlabProjectPage(accessToken, page.nextPageUrl)
+      projects.push(...page.projects)
+    }
+    return projects
+  })()
+  projectsByUser[cacheKey] = promise
+  return promise
+}
+
+/** Get the id of a group the user can create projects in */
+const getGitlabGroupId = async (accessToken: string, groupPath: string, host: string) => {
+  const response = await gitlabApiRequest(
+    accessToken,
+    `${getGitlabApiUrl(host)}/groups/${encodeURIComponent(groupPath)}`
+  )
+  const jsonResponse = response.ok ? (response.data as undefined | { id?: number }) : undefined
+  if (!jsonResponse || jsonResponse.id == null) {
+    throw new Error(`Failed to find the gitlab group ${groupPath}`)
+  }
+  return jsonResponse.id
+}
+
+/**
+ * Create a new gitlab project
+ * @param projectPath The full path of the project. The project is created in the user namespace, if the path has no other namespace.
+ * @param onCreated Called as soon as the project exists
+ */
+export const createGitlabRepo = async (
+  accessToken: string,
+  projectPath: string,
+  description: string,
+  host: string,
+  options: RepositoryOptions,
+  onCreated?: () => void
+) => {
+  const userInfo = await getGitlabUserInfo(accessToken, host)
+  const name = projectPath.split("/").at(-1) || ""
+  const namespace = projectPath.split("/").slice(0, -1).join("/")
+  const namespaceId =
+    namespace && namespace !== userInfo.username ? await getGitlabGroupId(accessToken, namespace, host) : undefined
+
+  const body = {
+    name: name,
+    path: name,
+    description: description,
+    ...(namespaceId !== undefined ? { namespace_id: namespaceId } : {}),
+    visibility: options.visibility,
+    initialize_with_readme: options.autoInit,
+    ...(options.topics.length ? { topics: options.topics } : {}),
+    issues_access_level: options.hasIssues ? "enabled" : "disabled",
+    wiki_access_level: options.hasWiki ? "enabled" : "disabled",
+  }
+
+  const response = await gitlabApiRequest(accessToken, `${getGitlabApiUrl(host)}/projects`, {
+    method: "POST",
+    body,
+  })
+  if (!response.ok) {
+    throw new Error(`Failed to create gitlab project: ${response.message}`)
+  }
+
+  // The projects are loaded again, when they are needed
+  delete projectsByUser[`${host}/${userInfo.username}`]
+  onCreated?.()
+}
+
+/**
+ * Delete a gitlab project
+ * @param projectPath The full path of the project including the namespace
+ */
+export const deleteGitlabRepo = async (accessToken: string, projectPath: string, host: string) => {
+  const userInfo = await getGitlabUserInfo(accessToken, host)
+  const response = await gitlabApiRequest(
+    accessToken,
+    `${getGitlabApiUrl(host)}/projects/${encodeURIComponent(projectPath)}`,
+    { method: "DELETE" }
+  )
+  if (!response.ok) {
+    throw new Error(`Failed to delete gitlab project, you can also delete it at https://${host}/${projectPath}/edit`)
+  }
+
+  delete projectsByUser[`${host}/${userInfo.username}`]
+}
+
+export const getGitlabDefaultBranch = async (accessToken: string, projectPath: string, host: string) => {
+  const response = await gitlabApiRequest(
+    accessToken,
+    `${getGitlabApiUrl(host)}/projects/${encodeURIComponent(projectPath)}`
+  )
+  const jsonResponse = response.ok ? (response.data as undefined | { default_branch?: string }) : undefined
+  if (!jsonResponse || !jsonResponse.default_branch) {
+    return undefined
+  }
+  return jsonResponse.default_branch
+}
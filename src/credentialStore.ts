@@ -0,0 +1,47 @@
+import { chmodSync, existsSync, mkdirSync, readFileSync, writeFileSync } from "fs"
+import { homedir } from "os"
+import { dirname } from "path"
+import { parse, stringify } from "yaml"
+
+type StoredCredential = { host: string; accessToken: string; user?: string }
+
+/** Our own credential store. Only used, if the user does not want to store the token in the github cli config */
+export const credentialStorePath = homedir() + "/.config/create-typescript-thing/credentials.yml"
+
+const readCredentialStore = () => {
+  if (!existsSync(credentialStorePath)) {
+    return {}
+  }
+  const parsedStore = parse(readFileSync(credentialStorePath, "utf8")) as unknown
+  if (!parsedStore || typeof parsedStore !== "object" || Array.isArray(parsedStore)) {
+    return {}
+  }
+  return parsedStore as Record<string, { oauth_token?: unknown; user?: unknown } | undefined>
+}
+
+/** Get the credentials for every host in the credential store */
+export const getStoredCredentials = (): StoredCredential[] =>
+  Object.entries(readCredentialStore()).flatMap(([host, entry]) =>
+    entry && typeof entry.oauth_token === "string"
+      ? [{ host, accessToken: entry.oauth_token, ...(typeof entry.user === "string" ? { user: entry.user } : {}) }]
+      : []
+  )
+
+const writeCredentialStore = (store: ReturnType<typeof readCredentialStore>) => {
+  mkdirSync(dirname(credentialStorePath), { recursive: true, mode: 0o700 })
+  writeFileSync(credentialStorePath, stringify(store), { mode: 0o600 })
+  // The mode is only applied to new files
+  chmodSync(credentialStorePath, 0o600)
+}
+
+/** Store a token in the credential store. Replaces the existing token for the host */
+export const storeCredential = ({ host, accessToken, user }: StoredCredential) => {
+  writeCredentialStore({
+    ...readCredentialStore(),
+    [host]: { oauth_token: accessToken, ...(user ? { user } : {}) },
+  })
+}
+
+export const removeStoredCredential = (host: string) => {
+  writeCredentialStore(Object.fromEntries(Object.entries(readCredentialStore()).filter(([key]) => key !== host)))
+}
@@ -1,24 +1,83 @@
+import { existsSync, readFileSync, writeFileSync } from "fs"
+import { PackageSettings } from "packageSettings"
+import path from "path"
+import { Shell } from "sh"
 import which from "which"
 
-export const determinePackageManager = async () => {
-  const byArgs = determineByArgs()
-  if (byArgs) {
-    return byArgs
+export type PackageManager = NonNullable<PackageSettings["packageManager"]>
+
+const packageManagers: PackageManager[] = ["pnpm", "yarn", "npm", "bun"]
+
+export type PackageManagerDetection = {
+  packageManager?: PackageManager
+  /** Why the package manager was detected, e.g. "/home/user/project/yarn.lock exists" */
+  reason?: string
+  /** The version from a packageManager field. It is only set, if the package manager was detected from that field */
+  pinnedVersion?: string
+  /** The versions of the installed package managers */
+  versions: Partial<Record<PackageManager, string>>
+}
+
+const lockfiles: Array<[string, PackageManager]> = [
+  ["pnpm-lock.yaml", "pnpm"],
+  ["yarn.lock", "yarn"],
+  ["package-lock.json", "npm"],
+  ["npm-shrinkwrap.json", "npm"],
+  ["bun.lock", "bun"],
+  ["bun.lockb", "bun"],
+]
+
+/** Get the directory and all of its parents */
+const getAncestors = (directory: string) => {
+  const ancestors = [path.resolve(directory)]
+  while (path.dirname(ancestors[ancestors.length - 1]) !== ancestors[ancestors.length - 1]) {
+    ancestors.push(path.dirname(ancestors[ancestors.length - 1]))
   }
+  return ancestors
+}
 
-  const byEnv = determineByEnv()
-  if (byEnv) {
-    return byEnv
+/** Parse a packageManager field like pnpm@8.6.0 */
+export const parsePackageManagerField = (field: unknown) => {
+  const [name, version] = typeof field === "string" ? field.split("@") : []
+  return packageManagers.includes(name as PackageManager) && version
+    ? { packageManager: name as PackageManager, version }
+    : undefined
+}
+
+/** Check the packageManager field of the closest package.json that has one */
+const determineByPackageJson = (directory: string) => {
+  for (const ancestor of getAncestors(directory)) {
+    const packageJsonPath = path.join(ancestor, "package.json")
+    if (!existsSync(packageJsonPath)) {
+      continue
+    }
+    try {
+      const field = (JSON.parse(readFileSync(packageJsonPath, "utf8")) as { packageManager?: unknown }).packageManager
+      const parsedField = parsePackageManagerField(field)
+      if (parsedField) {
+        return { ...parsedField, reason: `${packageJsonPath} pins ${field}` }
+      }
+    } catch {
+      continue
+    }
   }
+  return undefined
+}
 
-  const byInstalledPackageManagers = await determineByInstalledPackageManagers()
-  if (byInstalledPackageManagers) {
-    return byInstalledPackageManagers
+/** Check the lockfiles in the closest directory that has one */
+const determineByLockfile = (directory: string) => {
+  for (const ancestor of getAncestors(directory)) {
+    const lockfile = lockfiles.find(([file]) => existsSync(path.join(ancestor, file)))
+    if (lockfile) {
+      return { packageManager: lockfile[1], reason: `${path.join(ancestor, lockfile[0])} exists` }
+    }
   }
+  return undefined
 }
 
 const determineByArgs = () => {
   const execpath = process.argv0
+  if (execpath.includes("bun")) return "bun"
   if (execpath.includes("pnpm")) return "pnpm"
   if (execpath.includes("yarn")) return "yarn"
   if (execpath.includes("npm")) return "npm"
@@ -28,11 +87,14 @@ const determineByArgs = () => {
 
 const determineByEnv = () => {
   const execpath = process.env.npm_execpath ?? ""
+  if (execpath.includes("bun")) return "bun"
   if (execpath.includes("pnpm")) return "pnpm"
   if (execpath.includes("yarn")) return "yarn"
   if (execpath.includes("npm")) return "npm"
 
+  // Bun and pnpm also mention npm in their user agent, e.g. bun/1.1.0 npm/? node/v21.6.0
   const configUserAgent = process.env.npm_config_user_agent ?? ""
+  if (configUserAgent.includes("bun")) return "bun"
   if (configUserAgent.includes("pnpm")) return "pnpm"
   if (configUserAgent.includes("yarn")) return "yarn"
   if (configUserAgent.includes("npm")) return "npm"
@@ -40,18 +102,94 @@ const determineByEnv = () => {
   return undefined
 }
 
-const determineByInstalledPackageManagers = async () => {
-  const pnpm = which("pnpm")
-    .then(() => "pnpm" as const)
-    .catch(() => undefined)
-  const yarn = which("yarn")
-    .then(() => "yarn" as const)
-    .catch(() => undefined)
-  const npm = which("npm")
-    .then(() => "npm" as const)
-    .catch(() => undefined)
+/** Get the versions of the installed package managers */
+const getInstalledVersions = async (shell: Shell) =>
+  Object.fromEntries(
+    (
+      await Promise.all(
+        packageManagers.map(async packageManager => {
+          const installed = await which(packageManager).then(
+            () => true,
+            () => false
+          )
+          const version = installed
+            ? (await shell(`${packageManager} --version`).catch(() => undefined))?.stdout.trim()
+            : undefined
+          return [packageManager, version] as const
+        })
+      )
+    ).filter(([, version]) => version)
+  ) as PackageManagerDetection["versions"]
+
+/** Yarn 2 and newer is called berry and works quite differently from yarn classic */
+export const isYarnBerry = (version: string) => !version.startsWith("1.")
+
+export const describePackageManagerVersion = (packageManager: PackageManager, version: string) =>
+  packageManager === "yarn" ? `${version} (${isYarnBerry(version) ? "berry" : "classic"})` : version
+
+/**
+ * Detect the package manager the package should use. The project around the directory is checked first, then
+ * the package manager that runs the wizard and at last the installed package managers
+ */
+export const determinePackageManager = async (directory: string, shell: Shell): Promise<PackageManagerDetection> => {
+  const versions = await getInstalledVersions(shell)
+
+  const byPackageJson = determineByPackageJson(directory)
+  if (byPackageJson) {
+    return {
+      packageManager: byPackageJson.packageManager,
+      reason: byPackageJson.reason,
+      pinnedVersion: byPackageJson.version,
+      versions,
+    }
+  }
+
+  const byLockfile = determineByLockfile(directory)
+  if (byLockfile) {
+    return { ...byLockfile, versions }
+  }
+
+  const byArgs = determineByArgs()
+  if (byArgs) {
+    return { packageManager: byArgs, reason: `you ran the wizard with ${byArgs}`, versions }
+  }
+
+  const byEnv = determineByEnv()
+  if (byEnv) {
+    return { packageManager: byEnv, reason: `you ran the wizard with ${byEnv}`, versions }
+  }
+
+  const byInstalledPackageManagers = packageManagers.find(packageManager => versions[packageManager])
+  if (byInstalledPackageManagers) {
+    return {
+      packageManager: byInstalledPackageManagers,
+      reason: `it is the first installed of ${packageManagers.join(", ")}`,
+      versions,
+    }
+  }
+
+  return { versions }
+}
+
+/** Check if corepack can pin the version of the package manager. Corepack does not manage bun */
+export const canPinPackageManager = (settings: Pick<PackageSettings, "packageManager" | "packageManagerVersions">) =>
+  !!settings.packageManager &&
+  settings.packageManager !== "bun" &&
+  !!settings.packageManagerVersions?.[settings.packageManager]
 
-  const packageManager = (await Promise.all([pnpm, yarn, npm])).filter(x => !!x)[0]
+/** Get the value for the packageManager field, e.g. pnpm@8.6.0. Undefined, if the version should not be pinned */
+export const getPackageManagerPin = (
+  settings: Pick<PackageSettings, "packageManager" | "packageManagerVersions" | "pinPackageManager">
+) => {
+  const version = settings.packageManager && settings.packageManagerVersions?.[settings.packageManager]
+  return settings.pinPackageManager && canPinPackageManager(settings)
+    ? `${settings.packageManager}@${version}`
+    : undefined
+}
 
-  return packageManager
+/** Set the packageManager field in the package.json of the directory, so corepack uses that version */
+export const writePackageManagerField = (directory: string, pin: string) => {
+  const packageJsonPath = path.join(directory, "package.json")
+  const packageJson = JSON.parse(readFileSync(packageJsonPath, "utf8")) as Record<string, unknown>
+  writeFileSync(packageJsonPath, JSON.stringify({ ...packageJson, packageManager: pin }, undefined, 2) + "\n")
 }
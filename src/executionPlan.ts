@@ -0,0 +1,91 @@
+import chalk from "chalk"
+import { GithubApiRequest } from "createGithubRepo"
+import { HostedRepository, RepositoryOptions } from "packageSettings"
+import { describeRepositoryOptions } from "repositoryOptions"
+
+/** Everything that would happen, if the wizard was not a dry run */
+export type ExecutionPlan = {
+  /** The absolute path of the package */
+  directory: string
+  directoryExists: boolean
+  /** The options that would be passed to createTypescriptThing. The root package.json for a new monorepo */
+  packageOptions: object
+  /** False if no git repository is initialized, because the package is inside a monorepo */
+  initializeGitRepo: boolean
+  /** True if the packages are set up with npm and switched to bun afterwards */
+  switchToBun?: boolean
+  /** The value of the packageManager field, that is added to the package.json */
+  packageManagerPin?: string
+  /** The files of a new monorepo root and the options for each of its packages */
+  monorepo?: {
+    files: string[]
+    members: Array<{ name: string; packageOptions: object }>
+  }
+  /** The changes that register the package in the surrounding monorepo workspace */
+  workspaceChanges?: string[]
+  remote?: string
+  branch?: string
+  /** The repository that would be created on the git host */
+  repository?: {
+    hostedRepository: HostedRepository
+    options: RepositoryOptions
+    /** The github api requests that would be sent to create it */
+    requests: GithubApiRequest[]
+  }
+}
+
+const indent = (text: string, depth: number) =>
+  text
+    .split("\n")
+    .map(line => `${" ".repeat(depth)}${line}`)
+    .join("\n")
+
+/** Format the plan of a dry run for the terminal */
+export const formatExecutionPlan = (plan: ExecutionPlan) => {
+  const repositoryLines = plan.repository
+    ? [
+        `  Create ${plan.repository.hostedRepository.url} on ${
+          plan.repository.hostedRepository.host
+        } (${describeRepositoryOptions(plan.repository.options)})`,
+        ...plan.repository.requests.flatMap(request => [
+          `  ${request.method} ${request.url}`,
+          indent(JSON.stringify(request.body, null, 2), 4),
+        ]),
+      ]
+    : ["  No repository is created"]
+
+  return [
+    chalk.bold("Directory"),
+    `  ${plan.directoryExists ? "Use the existing directory" : "Create the directory"} ${plan.directory}`,
+    chalk.bold("Repository"),
+    ...repositoryLines,
+    chalk.bold("Git"),
+    plan.initializeGitRepo
+      ? "  Initialize a git repository"
+      : "  Skip the git repository, because the package is inside a monorepo",
+    `  Remote: ${plan.remote ?? "none"}`,
+    `  Branch: ${plan.branch ?? "the default branch"}`,
+    ...(plan.switchToBun
+      ? [
+          chalk.bold("Bun"),
+          "  Switch from npm to bun: bun lockfile, bun types and start and test scripts that run with bun",
+        ]
+      : []),
+    ...(plan.packageManagerPin
+      ? [chalk.bold("Corepack"), `  Pin ${plan.packageManagerPin} in the packageManager field`]
+      : []),
+    ...(plan.workspaceChanges ? [chalk.bold("Workspace"), ...plan.workspaceChanges.map(change => `  ${change}`)] : []),
+    ...(plan.monorepo
+      ? [
+          chalk.bold("Monorepo"),
+          ...plan.monorepo.files.map(file => `  Create ${file}`),
+          chalk.bold("Root package.json"),
+          indent(JSON.stringify(plan.packageOptions, null, 2), 2),
+          ...plan.monorepo.members.flatMap(({ name, packageOptions }) => [
+            chalk.bold(`Options for createTypescriptThing (${name})`),
+            indent(JSON.stringify(packageOptions, null, 2), 2),
+          ]),
+        ]
+      : [chalk.bold("Options for createTypescriptThing"), indent(JSON.stringify(plan.packageOptions, null, 2), 2)]),
+  ].join("\n")
+}
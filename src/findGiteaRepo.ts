@@ -0,0 +1,12 @@
+import { getGiteaRepos } from "createGiteaRepo"
+import { trashSearch } from "findGithubRepo"
+
+export const findGiteaRepo = async (accessToken: string, name: string, host: string) => {
+  const repos = (await getGiteaRepos(accessToken, host)).filter(repo => !repo.archived)
+  const names = repos.map(repo => repo.name)
+  const searchResult = trashSearch(name, names)
+  if (!searchResult) {
+    return
+  }
+  return repos.find(repo => repo.name === searchResult)
+}
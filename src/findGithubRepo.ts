@@ -1,6 +1,6 @@
-import { getUserRepos } from "createGithubRepo"
+import { listUserRepos } from "createGithubRepo"
 
-const trashSearch = (needle: string, haystack: string[]) => {
+export const trashSearch = (needle: string, haystack: string[]) => {
   const haystackLower = haystack.map(h => h.toLowerCase().replace(/[^a-z0-9]/g, ""))
   const needleLower = needle.toLowerCase().replace(/[^a-z0-9]/g, "")
   const matches = haystackLower.flatMap((element, index) => (element.includes(needleLower) ? [{ element, index }] : []))
@@ -17,8 +17,15 @@ const trashSearch = (needle: string, haystack: string[]) => {
   return undefined
 }
 
-export const findGithubRepo = async (accessToken: string, name: string) => {
-  const repos = await getUserRepos(accessToken)
+export const findGithubRepo = async (accessToken: string, name: string, host: string) => {
+  const listing = await listUserRepos(accessToken, host)
+  // Archived repositories should never be picked automatically
+  const exactMatch = listing.repos.find(repo => repo.name === name && !repo.archived)
+  if (exactMatch) {
+    return exactMatch
+  }
+
+  const repos = (await listing.complete).filter(repo => !repo.archived)
   const names = repos.map(repo => repo.name)
   const searchResult = trashSearch(name, names)
   if (!searchResult) {
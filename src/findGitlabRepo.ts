@@ -0,0 +1,12 @@
+import { getGitlabProjects } from "createGitlabRepo"
+import { trashSearch } from "findGithubRepo"
+
+export const findGitlabRepo = async (accessToken: string, name: string, host: string) => {
+  const projects = (await getGitlabProjects(accessToken, host)).filter(project => !project.archived)
+  const names = projects.map(project => project.name)
+  const searchResult = trashSearch(name, names)
+  if (!searchResult) {
+    return
+  }
+  return projects.find(project => project.name === searchResult)
+}
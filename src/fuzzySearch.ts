@@ -0,0 +1,57 @@
+const unifySeparators = (text: string) => text.toLowerCase().replace(/[^a-z0-9/]+/g, "-")
+
+const isWordStart = (text: string, index: number) => index === 0 || /[^a-z0-9]/.test(text[index - 1] ?? "")
+
+/**
+ * Score how well the needle matches the text. Every character of the needle has to appear in the text in the same order.
+ * Exact matches score highest, followed by substrings and then by scattered characters. Characters at the start of a word score higher.
+ * @returns The score or undefined if the needle does not match
+ */
+export const fuzzyScore = (needle: string, text: string) => {
+  const unifiedNeedle = unifySeparators(needle).replace(/^-+|-+$/g, "")
+  const unifiedText = unifySeparators(text)
+  if (!unifiedNeedle) {
+    return 0
+  }
+  // Prefer shorter texts, if the needle matches equally well
+  const lengthPenalty = (unifiedText.length - unifiedNeedle.length) / 100
+  if (unifiedNeedle === unifiedText) {
+    return 1000
+  }
+
+  const substringIndex = unifiedText.indexOf(unifiedNeedle)
+  if (substringIndex !== -1) {
+    return (isWordStart(unifiedText, substringIndex) ? 600 : 500) - lengthPenalty
+  }
+
+  let score = 0
+  let previousIndex = -2
+  let textIndex = 0
+  for (const character of unifiedNeedle.replace(/-/g, "")) {
+    const index = unifiedText.indexOf(character, textIndex)
+    if (index === -1) {
+      return undefined
+    }
+    score += 1
+    if (index === previousIndex + 1) {
+      score += 2
+    }
+    if (isWordStart(unifiedText, index)) {
+      score += 3
+    }
+    previousIndex = index
+    textIndex = index + 1
+  }
+
+  return Math.min(score, 400) - lengthPenalty
+}
+
+/** Get all items that match the needle, the best match first */
+export const rankFuzzy = <T>(needle: string, items: T[], getTexts: (item: T) => string[]) =>
+  items
+    .flatMap(item => {
+      const scores = getTexts(item).flatMap(text => fuzzyScore(needle, text) ?? [])
+      return scores.length ? [{ item, score: Math.max(...scores) }] : []
+    })
+    .sort((a, b) => b.score - a.score)
+    .map(({ item }) => item)
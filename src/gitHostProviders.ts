@@ -0,0 +1,109 @@
+import { createGiteaAccessToken } from "createGiteaAccessToken"
+import {
+  createGiteaRepo,
+  deleteGiteaRepo,
+  getGiteaDefaultBranch,
+  getGiteaRepos,
+  getGiteaUserInfo,
+} from "createGiteaRepo"
+import { createGithubAccessToken } from "createGithubAccessToken"
+import {
+  createGithubRepo,
+  deleteGithubRepo,
+  getCreateGithubRepoRequests,
+  getDefaultBranch,
+  getMissingRepoPermissions,
+  getUserInfo,
+  getUserOrgs,
+  listUserRepos,
+  searchGithubUsers,
+} from "createGithubRepo"
+import { createGitlabAccessToken } from "createGitlabAccessToken"
+import {
+  createGitlabRepo,
+  deleteGitlabRepo,
+  findGitlabUser,
+  getGitlabDefaultBranch,
+  getGitlabProjects,
+  getGitlabUserInfo,
+} from "createGitlabRepo"
+import { findGiteaRepo } from "findGiteaRepo"
+import { findGithubRepo } from "findGithubRepo"
+import { findGitlabRepo } from "findGitlabRepo"
+import { getStoredGithubCredentials, resolveGithubToken } from "githubCredentials"
+
+/** Everything the wizard does with the git hosts. Can be replaced, e.g. with fake hosts in tests */
+export type GitHostProviders = {
+  github: {
+    getStoredCredentials: typeof getStoredGithubCredentials
+    resolveToken: typeof resolveGithubToken
+    signIn: typeof createGithubAccessToken
+    getUserInfo: typeof getUserInfo
+    searchUsers: typeof searchGithubUsers
+    listRepos: typeof listUserRepos
+    findRepo: typeof findGithubRepo
+    getOrganizations: typeof getUserOrgs
+    getDefaultBranch: typeof getDefaultBranch
+    getMissingRepoPermissions: typeof getMissingRepoPermissions
+    getCreateRepoRequests: typeof getCreateGithubRepoRequests
+    createRepo: typeof createGithubRepo
+    deleteRepo: typeof deleteGithubRepo
+  }
+  gitlab: {
+    signIn: typeof createGitlabAccessToken
+    getUserInfo: typeof getGitlabUserInfo
+    findUser: typeof findGitlabUser
+    listProjects: typeof getGitlabProjects
+    findRepo: typeof findGitlabRepo
+    getDefaultBranch: typeof getGitlabDefaultBranch
+    createRepo: typeof createGitlabRepo
+    deleteRepo: typeof deleteGitlabRepo
+  }
+  gitea: {
+    signIn: typeof createGiteaAccessToken
+    getUserInfo: typeof getGiteaUserInfo
+    listRepos: typeof getGiteaRepos
+    findRepo: typeof findGiteaRepo
+    getDefaultBranch: typeof getGiteaDefaultBranch
+    createRepo: typeof createGiteaRepo
+    deleteRepo: typeof deleteGiteaRepo
+  }
+}
+
+/** The providers that talk to the real git hosts */
+export const defaultGitHostProviders: GitHostProviders = {
+  github: {
+    getStoredCredentials: getStoredGithubCredentials,
+    resolveToken: resolveGithubToken,
+    signIn: createGithubAccessToken,
+    getUserInfo: getUserInfo,
+    searchUsers: searchGithubUsers,
+    listRepos: listUserRepos,
+    findRepo: findGithubRepo,
+    getOrganizations: getUserOrgs,
+    getDefaultBranch: getDefaultBranch,
+    getMissingRepoPermissions: getMissingRepoPermissions,
+    getCreateRepoRequests: getCreateGithubRepoRequests,
+    createRepo: createGithubRepo,
+    deleteRepo: deleteGithubRepo,
+  },
+  gitlab: {
+    signIn: createGitlabAccessToken,
+    getUserInfo: getGitlabUserInfo,
+    findUser: findGitlabUser,
+    listProjects: getGitlabProjects,
+    findRepo: findGitlabRepo,
+    getDefaultBranch: getGitlabDefaultBranch,
+    createRepo: createGitlabRepo,
+    deleteRepo: deleteGitlabRepo,
+  },
+  gitea: {
+    signIn: createGiteaAccessToken,
+    getUserInfo: getGiteaUserInfo,
+    listRepos: getGiteaRepos,
+    findRepo: findGiteaRepo,
+    getDefaultBranch: getGiteaDefaultBranch,
+    createRepo: createGiteaRepo,
+    deleteRepo: deleteGiteaRepo,
+  },
+}
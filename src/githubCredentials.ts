@@ -0,0 +1,99 @@
+import { getGithubCliCredentials } from "accessGithubCliCredentials"
+import { defaultGithubHost, getUserInfo } from "createGithubRepo"
+import { getStoredCredentials } from "credentialStore"
+import { GithubTokenSource } from "packageSettings"
+import { Shell } from "sh"
+
+/** Get the credentials for every github host. The github cli config takes precedence over our own credential store */
+export const getStoredGithubCredentials = () => {
+  const githubCliCredentials = getGithubCliCredentials().map(credentials => ({
+    ...credentials,
+    source: "githubCli" as GithubTokenSource,
+  }))
+  const storedCredentials = getStoredCredentials()
+    .filter(
+      ({ host }) => !githubCliCredentials.some(credentials => credentials.host === host && credentials.accessToken)
+    )
+    .map(credentials => ({ ...credentials, protocol: undefined, source: "credentialStore" as GithubTokenSource }))
+  return [...githubCliCredentials, ...storedCredentials]
+}
+
+/**
+ * The environment variables that can hold a token for the host.
+ * Like the github cli does, the tokens for github.com are not sent to other hosts
+ */
+const getTokenVariables = (host: string) =>
+  host === defaultGithubHost ? ["GH_TOKEN", "GITHUB_TOKEN"] : ["GH_ENTERPRISE_TOKEN", "GITHUB_ENTERPRISE_TOKEN"]
+
+/** Get the first environment variable that holds a token for the host */
+const getTokenVariable = (host: string) => getTokenVariables(host).find(name => process.env[name])
+
+const getEnvironmentToken = (host: string) => {
+  const variable = getTokenVariable(host)
+  return variable ? process.env[variable] : undefined
+}
+
+/** Ask the configured git credential helpers for a token. Never prompts the user */
+const getGitCredentialToken = async (shell: Shell, host: string) => {
+  if (!/^[a-z0-9.-]+(:[0-9]+)?$/i.test(host)) {
+    return undefined
+  }
+  const result = await shell(
+    `printf 'protocol=https\\nhost=${host}\\n\\n' | GIT_TERMINAL_PROMPT=0 git -c credential.interactive=false credential fill`
+  ).catch(() => undefined)
+  const password = result?.stdout
+    .split("\n")
+    .find(line => line.startsWith("password="))
+    ?.slice("password=".length)
+  return password || undefined
+}
+
+/** Get a human readable description of where a token came from */
+export const describeGithubTokenSource = (source: GithubTokenSource, host: string) => {
+  switch (source) {
+    case "flag":
+      return "--github-token"
+    case "environment":
+      return `the ${getTokenVariable(host) ?? getTokenVariables(host)[0]} environment variable`
+    case "githubCli":
+      return "the github cli config"
+    case "credentialStore":
+      return "the create-typescript-thing credential store"
+    case "gitCredential":
+      return "your git credential helper"
+    case "signIn":
+      return "your sign in"
+  }
+}
+
+/**
+ * Find a working token for a github host.
+ * Checks the token from the command line, the environment, the github cli config, our credential store and the git credential helpers in that order.
+ * @param shell Runs the git credential helpers
+ * @returns The first working token and the sources whose tokens did not work
+ */
+export const resolveGithubToken = async (shell: Shell, host: string, flagToken?: string) => {
+  const candidates: Array<{ source: GithubTokenSource; getToken: () => Promise<string | undefined> }> = [
+    { source: "flag", getToken: async () => flagToken },
+    { source: "environment", getToken: async () => getEnvironmentToken(host) },
+    ...getStoredGithubCredentials()
+      .filter(credentials => credentials.host === host)
+      .map(credentials => ({ source: credentials.source, getToken: async () => credentials.accessToken })),
+    { source: "gitCredential", getToken: () => getGitCredentialToken(shell, host) },
+  ]
+
+  const failedSources: GithubTokenSource[] = []
+  for (const { source, getToken } of candidates) {
+    const accessToken = await getToken()
+    if (!accessToken) {
+      continue
+    }
+    const userInfo = await getUserInfo(accessToken, host).catch(() => undefined)
+    if (userInfo) {
+      return { accessToken, source, userInfo, failedSources }
+    }
+    failedSources.push(source)
+  }
+
+  return { failedSources }
+}
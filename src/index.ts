@@ -1,19 +1,60 @@
-import { getGithubCliCredentials } from "accessGithubCliCredentials"
+import { setGithubCliCredentials } from "accessGithubCliCredentials"
+import { runWithOfflineMode } from "apiClient"
+import { AsyncLocalStorage, AsyncResource } from "async_hooks"
 import chalk from "chalk"
 import { createTypescriptThing, Options } from "create-typescript-thing-lib"
-import { createGithubAccessToken } from "createGithubAccessToken"
-import { createGithubRepo, getDefaultBranch, getUserInfo, getUserRepos } from "createGithubRepo"
-import { determinePackageManager } from "determinePackageManager"
-import { findGithubRepo } from "findGithubRepo"
-import { existsSync } from "fs"
-import fetch from "node-fetch"
+import { getGiteaBaseUrl, getGiteaSshHost } from "createGiteaRepo"
+import { getTokenRevocationUrl } from "createGithubAccessToken"
+import { defaultGithubHost } from "createGithubRepo"
+import { defaultGitlabHost } from "createGitlabRepo"
+import { credentialStorePath, removeStoredCredential, storeCredential } from "credentialStore"
+import {
+  canPinPackageManager,
+  describePackageManagerVersion,
+  determinePackageManager,
+  getPackageManagerPin,
+  writePackageManagerField,
+} from "determinePackageManager"
+import { ExecutionPlan, formatExecutionPlan } from "executionPlan"
+import { existsSync, readdirSync, rmSync } from "fs"
+import { rankFuzzy } from "fuzzySearch"
+import { defaultGitHostProviders, GitHostProviders } from "gitHostProviders"
+import { describeGithubTokenSource } from "githubCredentials"
+import {
+  getMonorepoFiles,
+  getMonorepoPackageJson,
+  monorepoPackagesDirectory,
+  useSharedConfigs,
+  writeMonorepoFiles,
+} from "monorepoRoot"
+import {
+  applyWorkspaceChange,
+  describeWorkspace,
+  findWorkspace,
+  getWorkspaceChanges,
+  MonorepoWorkspace,
+} from "monorepoWorkspace"
+import { checkNameAvailability, getRegistry, isKnownToBeTaken } from "npmRegistry"
 import ora from "ora"
 import { userInfo } from "os"
+import {
+  GitAccountInfo,
+  GithubTokenSource,
+  HostedRepository,
+  MonorepoMember,
+  PackageSettings,
+  RepositoryOptions,
+} from "packageSettings"
 import path from "path"
 import { exit } from "process"
-import prompts from "prompts"
-import { sh } from "sh"
+import { describeRepositoryOptions, getRepositoryOptions } from "repositoryOptions"
+import { SideEffect, undoSideEffects } from "rollback"
+import { getSavedSession, removeSavedSession, SavedSession, saveSession, sessionPath } from "sessionState"
+import { switchToBun } from "setupBun"
+import { sh, Shell } from "sh"
+import { getUserConfig, setUserConfig, userConfigPath } from "userConfig"
 import validate from "validate-npm-package-name"
+import { getCurrentIo, runWithIo, terminalIo, WizardIo } from "wizardIo"
 
 const normalizeString = (str: string) =>
   str
@@ -25,66 +66,90 @@ const normalizeString = (str: string) =>
     ?.split("@")
     .at(0) || ""
 
-type GitAccountInfo = {
-  type: "github" | "gitlab"
-  username: string
-  confidence: number
-}
-
-type PackageSettings = {
-  // Real settings for creation
-  path?: string
-  name?: string
-  description?: string
-  type?: "library" | "application"
-  monorepo?: boolean
-  repo?: string
-  branch?: string
-  authorName?: string
-  authorEmail?: string
-
-  // Only use for this wizard
-  /** The directory in which the wizard was invoked */
-  invokeDirectory: string
-  pathInfos: Record<
-    string,
-    {
-      /** If the target path is inside the git tree */
-      inGitTree: boolean
-      /** If the target path is a git repository */
-      isGitRoot: boolean
-      /** If the target path already exists */
-      pathExists: boolean
-      /** The first existing path, if we move up from the target path */
-      firstExistingPathUp: string
-      /** The target path with the invoke directory prepended */
-      absolutePath: string
-      /** The git origin, if it is inside a repository */
-      gitOrigin?: string
-    }
-  >
-  gitUsername?: string
-  gitEmail?: string
-  osUsername?: string
-  gitAccount?: GitAccountInfo
-  // True if the path was explicitly set
-  explicitPath?: boolean
-  // github username
-  githubUsername?: string
-  // github token
-  githubToken?: string
-  // github protocol
-  gitProtocol?: "https" | "ssh"
-
-  packageManager?: "pnpm" | "yarn" | "npm"
-}
-
-const onCancel = () => {
-  console.log("Bye 👋")
-  exit(0)
-}
-
-const addPathInfo = async (settings: PackageSettings): Promise<PackageSettings> => {
+/** The environment and the state of one runWizard call */
+type WizardRun = {
+  providers: GitHostProviders
+  shell: Shell
+  sessionEnabled: boolean
+  /** Only the initial questions can go back. Escape quits everywhere else */
+  backNavigation: boolean
+  lastKeyName?: string
+}
+
+// Every runWizard call gets its own run, so wizards that run at the same time do not replace each other's environment
+const wizardRuns = new AsyncLocalStorage<WizardRun>()
+
+/** Get the run of the calling wizard. The helpers are also used outside of a wizard, they use the real environment then */
+const getRun = (): WizardRun =>
+  wizardRuns.getStore() ?? {
+    providers: defaultGitHostProviders,
+    shell: sh,
+    sessionEnabled: true,
+    backNavigation: false,
+  }
+
+// The environment of the calling wizard. Replaced by the options of runWizard
+const io: WizardIo = {
+  get prompt() {
+    return getCurrentIo().prompt
+  },
+  log: message => getCurrentIo().log(message),
+  error: message => getCurrentIo().error(message),
+  get input() {
+    return getCurrentIo().input
+  },
+  get output() {
+    return getCurrentIo().output
+  },
+}
+const providers: GitHostProviders = {
+  get github() {
+    return getRun().providers.github
+  },
+  get gitlab() {
+    return getRun().providers.gitlab
+  },
+  get gitea() {
+    return getRun().providers.gitea
+  },
+}
+const shell: Shell = (...args) => getRun().shell(...args)
+
+/** Thrown by onCancel, when the user pressed escape to go back to the previous question */
+const goBack = new Error("Went back to the previous question")
+
+/** Thrown by onCancel, when the user quits the wizard */
+const cancelled = new Error("The wizard was cancelled")
+
+const onCancel = (): never => {
+  const { backNavigation, lastKeyName } = getRun()
+  if (backNavigation && lastKeyName === "escape") {
+    throw goBack
+  }
+  throw cancelled
+}
+
+/** Save the settings, so the session can be resumed. A dry run does not change any files */
+const snapshotSession = (settings: PackageSettings) => {
+  if (getRun().sessionEnabled && !settings.dryRun) {
+    try {
+      saveSession(settings)
+    } catch {
+      // The wizard works without resuming, so this is not worth stopping for
+    }
+  }
+  return settings
+}
+
+// The reasons for a package manager the user chose
+const explicitPackageManagerReason = "it was set explicitly"
+const selectedPackageManagerReason = "you selected it"
+
+/**
+ * Inspect the path of the package. Detects surrounding git repositories and monorepo workspaces, as the package might be
+ * inside a monorepo. The package manager of the workspace is used for the package, unless the user chose one
+ */
+export const addPathInfo = async (settings: PackageSettings): Promise<PackageSettings> => {
   if (!settings.path || settings.pathInfos[settings.path]) {
     return settings
   }
@@ -107,18 +172,29 @@ const addPathInfo = async (settings: PackageSettings): Promise<PackageSettings>
   const pathExists = firstExistingPathUp === targetPath
   const inGitTree =
     (
-      await sh(`cd ${firstExistingPathUp} ; git rev-parse --is-inside-work-tree`).catch(() => ({ stdout: "false" }))
+      await shell(`cd ${firstExistingPathUp} ; git rev-parse --is-inside-work-tree`).catch(() => ({ stdout: "false" }))
     ).stdout.trim() === "true"
   const gitOrigin = inGitTree
-    ? (await sh(`cd ${firstExistingPathUp} ; git remote get-url origin`).catch(() => undefined))?.stdout.trim()
+    ? (await shell(`cd ${firstExistingPathUp} ; git remote get-url origin`).catch(() => undefined))?.stdout.trim()
     : undefined
 
   const isGitRoot = pathExists && existsSync(path.resolve(firstExistingPathUp, ".git"))
+  const workspace = findWorkspace(path.dirname(targetPath))
+  const chosenPackageManager =
+    !!settings.packageManager &&
+    (settings.packageManagerReason === explicitPackageManagerReason ||
+      settings.packageManagerReason === selectedPackageManagerReason)
+  const workspacePackageManager = chosenPackageManager ? undefined : workspace?.packageManager
 
   return {
     ...settings,
     repo: settings.repo ?? gitOrigin,
-    monorepo: settings.monorepo ?? (inGitTree && !isGitRoot),
+    monorepo: settings.monorepo ?? ((inGitTree && !isGitRoot) || !!workspace),
+    packageManager: workspacePackageManager ?? settings.packageManager,
+    packageManagerReason:
+      workspace && workspacePackageManager
+        ? `the package is inside the ${describeWorkspace(workspace)} at ${workspace.root}`
+        : settings.packageManagerReason,
     pathInfos: {
       ...settings.pathInfos,
       [settings.path]: {
@@ -128,68 +204,124 @@ const addPathInfo = async (settings: PackageSettings): Promise<PackageSettings>
         inGitTree,
         absolutePath: targetPath,
         gitOrigin,
+        workspace,
       },
     },
   }
 }
 
-const addAuthorInfo = async (settings: PackageSettings): Promise<PackageSettings> => {
-  const gitUsername = (await sh("git config --get user.name").catch(() => ({ stdout: "" }))).stdout.trim() || undefined
-  const gitEmail = (await sh("git config --get user.email").catch(() => ({ stdout: "" }))).stdout.trim() || undefined
+/** Infer the author and the github account from the git config and the stored github credentials */
+export const addAuthorInfo = async (settings: PackageSettings): Promise<PackageSettings> => {
+  const gitUsername =
+    (await shell("git config --get user.name").catch(() => ({ stdout: "" }))).stdout.trim() || undefined
+  const gitEmail = (await shell("git config --get user.email").catch(() => ({ stdout: "" }))).stdout.trim() || undefined
   const osUsername = userInfo().username || undefined
-  const credentials = await getGithubCliCredentials()
-  const githubUserinfo = credentials?.accessToken
-    ? await getUserInfo(credentials.accessToken).catch(() => undefined)
-    : undefined
+  const allCredentials = providers.github.getStoredCredentials()
+  const credentials = settings.githubHost
+    ? allCredentials.find(({ host }) => host === settings.githubHost)
+    : allCredentials.find(({ host }) => host === defaultGithubHost) ?? allCredentials[0]
+  const githubHost = settings.githubHost ?? credentials?.host ?? defaultGithubHost
+  // Offline we can not check the tokens, so we only use the usernames from the stored credentials
+  const resolvedToken = settings.offline
+    ? undefined
+    : await providers.github.resolveToken(shell, githubHost, settings.githubToken)
+  const githubUserinfo = resolvedToken?.userInfo
+  const staleSource = resolvedToken?.failedSources[0]
 
   return {
     ...settings,
     authorName: settings.authorName ?? githubUserinfo?.name ?? credentials?.user ?? gitUsername ?? osUsername,
     authorEmail: settings.authorEmail ?? gitEmail, // Not using the github email, as it might be private
 
-    gitUsername: githubUserinfo?.name ?? credentials?.user ?? gitUsername,
+    gitUsername: githubUserinfo?.login ?? credentials?.user ?? gitUsername,
     gitEmail: gitEmail,
     osUsername: osUsername,
-    githubUsername: githubUserinfo?.name ?? credentials?.user,
-    githubToken: credentials?.accessToken,
-    gitProtocol: credentials?.protocol ?? "ssh",
+    githubUsername: githubUserinfo?.login ?? credentials?.user,
+    githubToken: resolvedToken?.accessToken,
+    githubTokenSource: resolvedToken?.source,
+    staleGithubToken:
+      staleSource && !resolvedToken?.accessToken ? { host: githubHost, source: staleSource } : undefined,
+    githubHost: githubHost,
+    githubCliHosts: allCredentials.map(({ host }) => host),
+    gitProtocol: settings.gitProtocol ?? credentials?.protocol ?? "ssh",
   }
 }
 
-const validateGitRepo = async (gitUrl: string) => {
-  return (await sh(`git ls-remote ${gitUrl}`).catch(() => ({ stdout: "" })))?.stdout?.includes("HEAD")
+/** Check if a remote git repository exists. Offline we can not check it, so we trust the user */
+const validateGitRepo = async (settings: PackageSettings, gitUrl: string) => {
+  if (settings.offline) {
+    return true
+  }
+  return (await shell(`git ls-remote ${gitUrl}`).catch(() => ({ stdout: "" })))?.stdout?.includes("HEAD")
 }
 
-const buildGitRepoUrl = (type: "github" | "gitlab", username: string, name: string) => {
-  const host = `${type}.com`
+const buildGitRepoUrl = (host: string, username: string, name: string) => {
   return `git@${host}:${username}/${name}.git`
 }
 
+const getGithubHost = (settings: PackageSettings) => settings.githubHost ?? defaultGithubHost
+
+const getGitlabHost = (settings: PackageSettings) => settings.gitlabHost ?? defaultGitlabHost
+
+/** Get the path of a gitlab project from its git url */
+const parseGitlabProjectPath = (gitUrl: string, host: string) => {
+  const prefix = [`git@${host}:`, `https://${host}/`].find(prefix => gitUrl.startsWith(prefix))
+  if (!prefix) {
+    return undefined
+  }
+  return gitUrl.slice(prefix.length).replace(/\.git$/, "") || undefined
+}
+
+/** Get the owner and name of a gitea repository from its git url */
+const parseGiteaRepoPath = (gitUrl: string, host: string) => {
+  const prefix = [`git@${getGiteaSshHost(host)}:`, `${getGiteaBaseUrl(host)}/`].find(prefix =>
+    gitUrl.startsWith(prefix)
+  )
+  const [owner, name, ...rest] = prefix
+    ? gitUrl
+        .slice(prefix.length)
+        .replace(/\.git$/, "")
+        .split("/")
+    : []
+  if (!owner || !name || rest.length) {
+    return undefined
+  }
+  return { owner, name }
+}
+
 const guessGitAccount = async (settings: PackageSettings): Promise<PackageSettings> => {
   const email = settings.gitEmail
   const username = settings.gitUsername
+  const githubHost = getGithubHost(settings)
+  const gitlabHost = getGitlabHost(settings)
 
   if (settings.githubUsername) {
     return {
       ...settings,
       gitAccount: {
         type: "github",
+        host: githubHost,
         username: settings.githubUsername,
         confidence: settings.githubToken ? 1 : 0.5,
       },
     }
   }
 
-  const githubSearchByEmail = (await (await fetch(`https://api.github.com/search/users?q=${email}}`)).json()) as
-    | { items: Array<{ login: string }> }
-    | undefined
-  const githubEmailUsername = githubSearchByEmail?.items?.[0]?.login
+  // The user searches would send the email and username to the git hosts
+  if (settings.offline) {
+    return settings
+  }
+
+  const githubEmailUsername = email
+    ? (await providers.github.searchUsers(settings.githubToken, email, githubHost))[0]
+    : undefined
 
   if (githubEmailUsername) {
     return {
       ...settings,
       gitAccount: {
         type: "github",
+        host: githubHost,
         username: githubEmailUsername,
         confidence: 1,
       },
@@ -198,16 +330,16 @@ const guessGitAccount = async (settings: PackageSettings): Promise<PackageSettin
     }
   }
 
-  const githubSearchByUsername = (await (await fetch(`https://api.github.com/search/users?q=${username}}`)).json()) as
-    | { items: Array<{ login: string }> }
-    | undefined
-  const githubUsernameFromUsername = githubSearchByUsername?.items?.[0]?.login
+  const githubUsernameFromUsername = username
+    ? (await providers.github.searchUsers(settings.githubToken, username, githubHost))[0]
+    : undefined
 
   if (githubUsernameFromUsername) {
     return {
       ...settings,
       gitAccount: {
         type: "github",
+        host: githubHost,
         username: githubUsernameFromUsername,
         confidence: 0.5,
       },
@@ -216,16 +348,14 @@ const guessGitAccount = async (settings: PackageSettings): Promise<PackageSettin
     }
   }
 
-  const gitlabSearchByUsername = (await (
-    await fetch(`https://gitlab.com/api/v4/users?username=${username}}`)
-  ).json()) as Array<{ username: string } | undefined> | undefined
-  const gitlabUsernameFromUsername = gitlabSearchByUsername?.[0]?.username
+  const gitlabUsernameFromUsername = username ? await providers.gitlab.findUser(username, gitlabHost) : undefined
 
   if (gitlabUsernameFromUsername) {
     return {
       ...settings,
       gitAccount: {
         type: "gitlab",
+        host: gitlabHost,
         username: gitlabUsernameFromUsername,
         confidence: 0.5,
       },
@@ -237,13 +367,30 @@ const guessGitAccount = async (settings: PackageSettings): Promise<PackageSettin
   return settings
 }
 
-const addRepoUrl = async (settings: PackageSettings): Promise<PackageSettings> => {
+/** Find the git repository and its default branch for the package on the git hosts the user is signed into */
+export const addRepoUrl = async (settings: PackageSettings): Promise<PackageSettings> => {
   const pathinfo = getPathInfo(settings)
 
   const defaultBranch =
     settings.branch ||
     (settings.gitAccount?.type === "github" && settings.githubToken && settings.name
-      ? await getDefaultBranch(settings.githubToken, settings.name)
+      ? await providers.github.getDefaultBranch(
+          settings.githubToken,
+          `${settings.gitAccount.username}/${settings.name}`,
+          getGithubHost(settings)
+        )
+      : settings.gitAccount?.type === "gitlab" && settings.gitlabToken && settings.name
+      ? await providers.gitlab.getDefaultBranch(
+          settings.gitlabToken,
+          `${settings.gitAccount.username}/${settings.name}`,
+          getGitlabHost(settings)
+        )
+      : settings.gitAccount?.type === "gitea" && settings.giteaToken && settings.giteaHost && settings.name
+      ? await providers.gitea.getDefaultBranch(
+          settings.giteaToken,
+          `${settings.gitAccount.username}/${settings.name}`,
+          settings.giteaHost
+        )
       : undefined)
 
   if (pathinfo?.gitOrigin) {
@@ -254,27 +401,73 @@ const addRepoUrl = async (settings: PackageSettings): Promise<PackageSettings> =
     }
   }
 
-  if (settings.githubToken && settings.githubUsername && settings.name) {
-    const foundGithubRepo = await findGithubRepo(settings.githubToken, settings.name)
-    if (foundGithubRepo) {
+  if (!settings.repo && settings.githubToken && settings.githubUsername && settings.name) {
+    const foundGithubRepo = await providers.github.findRepo(
+      settings.githubToken,
+      settings.name,
+      getGithubHost(settings)
+    )
+    // Only an exact match is used without asking, similar names are offered by the repository picker
+    if (foundGithubRepo?.name === settings.name) {
+      return {
+        ...settings,
+        repo: `git@${getGithubHost(settings)}:${foundGithubRepo.fullName}.git`,
+        branch:
+          settings.branch ||
+          (await providers.github.getDefaultBranch(
+            settings.githubToken,
+            foundGithubRepo.fullName,
+            getGithubHost(settings)
+          )),
+      }
+    }
+  }
+
+  if (!settings.repo && settings.gitlabToken && settings.gitlabUsername && settings.name) {
+    const foundGitlabRepo = await providers.gitlab.findRepo(
+      settings.gitlabToken,
+      settings.name,
+      getGitlabHost(settings)
+    )
+    if (foundGitlabRepo?.name === settings.name) {
+      return {
+        ...settings,
+        repo: `git@${getGitlabHost(settings)}:${foundGitlabRepo.fullName}.git`,
+        branch:
+          settings.branch ||
+          (await providers.gitlab.getDefaultBranch(
+            settings.gitlabToken,
+            foundGitlabRepo.fullName,
+            getGitlabHost(settings)
+          )),
+      }
+    }
+  }
+
+  if (!settings.repo && settings.giteaToken && settings.giteaHost && settings.name) {
+    const foundGiteaRepo = await providers.gitea.findRepo(settings.giteaToken, settings.name, settings.giteaHost)
+    if (foundGiteaRepo?.name === settings.name) {
       return {
         ...settings,
-        repo: `git@github.com:${foundGithubRepo.fullName}.git`,
-        branch: defaultBranch,
+        repo: `git@${getGiteaSshHost(settings.giteaHost)}:${foundGiteaRepo.fullName}.git`,
+        branch:
+          settings.branch ||
+          (await providers.gitea.getDefaultBranch(settings.giteaToken, foundGiteaRepo.fullName, settings.giteaHost)),
       }
     }
   }
 
-  if (settings.repo || !settings.gitAccount || !settings.name) {
+  // Offline we can not check if the guessed repository exists
+  if (settings.repo || !settings.gitAccount || !settings.name || settings.offline) {
     return {
       ...settings,
       branch: defaultBranch,
     }
   }
 
-  const repoUrl = buildGitRepoUrl(settings.gitAccount.type, settings.gitAccount.username, settings.name)
+  const repoUrl = buildGitRepoUrl(settings.gitAccount.host, settings.gitAccount.username, settings.name)
 
-  if (!(await validateGitRepo(repoUrl))) {
+  if (!(await validateGitRepo(settings, repoUrl))) {
     return settings
   }
 
@@ -289,8 +482,12 @@ const getPathInfo = (settings: PackageSettings) => {
   return (settings.path && settings.pathInfos[settings.path]) || undefined
 }
 
+/** Get the workspace the package is added to. Undefined, if the package is not part of a monorepo workspace */
+const getWorkspace = (settings: PackageSettings): MonorepoWorkspace | undefined =>
+  settings.monorepo ? getPathInfo(settings)?.workspace : undefined
+
 const selectAuthorName = async (settings: PackageSettings) => {
-  const result = await prompts(
+  const result = await io.prompt(
     {
       type: "text",
       name: "authorName",
@@ -307,7 +504,7 @@ const selectAuthorName = async (settings: PackageSettings) => {
 }
 
 const selectAuthorEmail = async (settings: PackageSettings) => {
-  const result = await prompts(
+  const result = await io.prompt(
     {
       type: "text",
       name: "authorEmail",
@@ -323,12 +520,13 @@ const selectAuthorEmail = async (settings: PackageSettings) => {
   }
 }
 
-const selectType = async (settings: PackageSettings) => {
-  const result = await prompts(
+/** Ask for the type of the package. A package inside a new monorepo can not be a monorepo itself */
+const selectType = async (settings: PackageSettings, monorepoMember = false) => {
+  const result = await io.prompt(
     {
       type: "select",
       name: "type",
-      message: "What do you want to create today?",
+      message: monorepoMember ? "What kind of package do you want to add?" : "What do you want to create today?",
       choices: [
         { title: "A library", value: "library", description: "A javascript library" },
         {
@@ -336,6 +534,15 @@ const selectType = async (settings: PackageSettings) => {
           value: "application",
           description: "A interactive cli application",
         },
+        ...(monorepoMember
+          ? []
+          : [
+              {
+                title: "A monorepo",
+                value: "monorepo",
+                description: "A workspace with one or more packages in a single git repository",
+              },
+            ]),
         {
           title: "A react component",
           value: "reactcomponent",
@@ -353,7 +560,7 @@ const selectType = async (settings: PackageSettings) => {
           disabled: true,
         },
       ],
-      initial: settings.type === "application" ? 1 : 0,
+      initial: settings.type === "application" ? 1 : settings.type === "monorepo" ? 2 : 0,
     },
     { onCancel }
   )
@@ -385,6 +592,7 @@ const checkDefaultPackageName = (name: string, settings: PackageSettings, direct
     "prod",
     "documents",
     "project",
+    monorepoPackagesDirectory,
     path.basename(userInfo().homedir),
     path.basename(userInfo().username),
     ".",
@@ -395,10 +603,13 @@ const checkDefaultPackageName = (name: string, settings: PackageSettings, direct
 
   const validName = validate(name).validForNewPackages
 
-  return validProjectName && validPath && validName
+  const availableName = !isKnownToBeTaken(name, settings.invokeDirectory)
+
+  return validProjectName && validPath && validName && availableName
 }
 
-const recommendNewPackageName = (settings: PackageSettings) => {
+/** Recommend a valid package name that does not collide with an existing project */
+export const recommendNewPackageName = (settings: PackageSettings) => {
   const defaultNames = [
     ...(settings.name
       ? [
@@ -446,15 +657,100 @@ const recommendNewPackageName = (settings: PackageSettings) => {
     },
   ]
 
-  const defaultName = defaultNames.find(({ name, dir }) => checkDefaultPackageName(name, settings, dir))
+  const withScope = (name: string) =>
+    settings.scope && name !== settings.name && !name.startsWith("@") ? `@${settings.scope}/${name}` : name
+
+  // The scoped name is what gets published, so it is the one that must not be taken
+  const defaultName = defaultNames.find(
+    ({ name, dir }) =>
+      checkDefaultPackageName(name, settings, dir) && !isKnownToBeTaken(withScope(name), settings.invokeDirectory)
+  )
+
+  return defaultName && { ...defaultName, name: withScope(defaultName.name) }
+}
+
+/** The most names recommendAvailablePackageName checks on the registry, before it gives up */
+const maxCheckedNames = 10
+
+/**
+ * Recommend a package name like recommendNewPackageName, that is also not taken on the npm registry.
+ * @returns Undefined, if no available name was found. The user has to choose one then
+ */
+const recommendAvailablePackageName = async (settings: PackageSettings) => {
+  for (let checkedNames = 0; checkedNames < maxCheckedNames; checkedNames++) {
+    const defaultName = recommendNewPackageName(settings)
+    // Taken names are skipped by recommendNewPackageName, once they were checked
+    if (!defaultName || (await checkNameAvailability(defaultName.name, settings.invokeDirectory)) !== "taken") {
+      return defaultName
+    }
+  }
+  return undefined
+}
+
+/** Get available alternatives for a taken name, starting with the name in the scope of the github user */
+const getNameAlternatives = async (settings: PackageSettings, name: string) => {
+  const unscopedName = name.replace(/^@[^/]+\//, "")
+  const recommendedName = (await recommendAvailablePackageName({ ...settings, name: undefined }))?.name
+  const candidates = [
+    ...(settings.githubUsername ? [`@${settings.githubUsername.toLowerCase()}/${unscopedName}`] : []),
+    ...(settings.scope ? [`@${settings.scope}/${unscopedName}`] : []),
+    ...(recommendedName ? [recommendedName] : []),
+  ].filter((candidate, index, all) => candidate !== name && all.indexOf(candidate) === index)
+
+  const availabilities = await Promise.all(
+    candidates.map(candidate => checkNameAvailability(candidate, settings.invokeDirectory))
+  )
+  return candidates.filter(
+    (candidate, index) => validate(candidate).validForNewPackages && availabilities[index] !== "taken"
+  )
+}
+
+/** Tell the user that the name is taken on the registry and offer available alternatives */
+const selectTakenNameAlternative = async (settings: PackageSettings, name: string) => {
+  const registry = getRegistry(name, settings.invokeDirectory).url
+  const alternatives = await getNameAlternatives(settings, name)
+
+  const result = await io.prompt(
+    {
+      type: "select",
+      name: "takenName",
+      message: `${name} is already taken on ${registry}. Which name do you want to use instead?`,
+      choices: [
+        ...alternatives.map(alternative => ({
+          title: alternative,
+          value: alternative,
+          description: `${alternative} is available on ${registry}`,
+        })),
+        { title: "Enter another name", value: "" },
+        {
+          title: `Use ${name} anyway`,
+          value: name,
+          description: "For example, if you own the package or are not going to publish it",
+        },
+      ],
+    },
+    { onCancel }
+  )
+
+  return result.takenName as string
+}
 
-  return defaultName
+/** Set the package name and derive the path from it, unless the path was set explicitly */
+const applyName = async (settings: PackageSettings, name: string) => {
+  const newPath =
+    normalizeString(path.basename(settings.invokeDirectory)) === normalizeString(name) ? "." : normalizeString(name)
+
+  return addPathInfo({
+    ...settings,
+    name: name,
+    path: !settings.explicitPath ? newPath : settings.path || newPath,
+  })
 }
 
-const selectName = async (settings: PackageSettings) => {
-  const defaultName = recommendNewPackageName(settings)
+const selectName = async (settings: PackageSettings): Promise<PackageSettings> => {
+  const defaultName = await recommendAvailablePackageName(settings)
 
-  const result = await prompts(
+  const result = await io.prompt(
     {
       type: "text",
       name: "name",
@@ -473,17 +769,13 @@ const selectName = async (settings: PackageSettings) => {
     },
     { onCancel }
   )
+  const name = result.name as string
 
-  const newPath =
-    normalizeString(path.basename(settings.invokeDirectory)) === normalizeString(result.name)
-      ? "."
-      : normalizeString(result.name)
-
-  return addPathInfo({
-    ...settings,
-    name: result.name as string,
-    path: !settings.explicitPath ? newPath : settings.path || newPath,
-  })
+  if ((await checkNameAvailability(name, settings.invokeDirectory)) !== "taken") {
+    return applyName(settings, name)
+  }
+  const alternative = await selectTakenNameAlternative(settings, name)
+  return alternative ? applyName(settings, alternative) : selectName({ ...settings, name })
 }
 
 const selectPath = async (settings: PackageSettings) => {
@@ -493,7 +785,7 @@ const selectPath = async (settings: PackageSettings) => {
       ? "."
       : `${normalizeString(settings.name)}`)
 
-  const result = await prompts(
+  const result = await io.prompt(
     {
       type: "text",
       name: "path",
@@ -517,7 +809,7 @@ const selectDescription = async (
   settings: PackageSettings,
   prompt = "Give me a short description of your package:"
 ) => {
-  const result = await prompts(
+  const result = await io.prompt(
     {
       type: "text",
       name: "description",
@@ -542,7 +834,7 @@ const selectDescription = async (
 }
 
 const selectMonorepo = async (settings: PackageSettings) => {
-  const result = await prompts(
+  const result = await io.prompt(
     {
       type: "confirm",
       name: "monorepo",
@@ -559,7 +851,7 @@ const selectMonorepo = async (settings: PackageSettings) => {
   }
 
   const parsedOrigin = (
-    await sh(`cd ${pathInfo.firstExistingPathUp} && git remote get-url origin`).catch(() => ({ stdout: "" }))
+    await shell(`cd ${pathInfo.firstExistingPathUp} && git remote get-url origin`).catch(() => ({ stdout: "" }))
   ).stdout.trim()
 
   const wasMonorepo =
@@ -578,417 +870,2136 @@ const selectMonorepo = async (settings: PackageSettings) => {
   return newSettings.repo === undefined && settings.repo !== undefined ? await selectOrigin(newSettings) : newSettings
 }
 
-const selectGithubAccount = async (settings: PackageSettings): Promise<PackageSettings> => {
-  const result = await prompts(
-    {
-      type: "confirm",
-      name: "login",
-      message: "Please sign into github so I can find or create a repository for this package.",
-      initial: true,
-    },
-    { onCancel }
-  )
+/** Ask for the type, name and description of another package in the new monorepo */
+const addMonorepoMember = async (settings: PackageSettings): Promise<PackageSettings> => {
+  const rootDirectory = path.resolve(settings.invokeDirectory, settings.path || ".")
+  const packagesDirectory = path.join(rootDirectory, monorepoPackagesDirectory)
+  const members = settings.members ?? []
 
-  if (!result.login) {
-    return settings
+  // The questions for the package are the same as for a standalone package, but relative to the packages directory
+  const memberSettings = await selectDescription(
+    await selectName(
+      await selectType(
+        {
+          invokeDirectory: packagesDirectory,
+          pathInfos: {},
+          type: "library",
+          scope: settings.scope ?? /^@([^/]+)\//.exec(settings.name ?? "")?.[1],
+        },
+        true
+      )
+    ),
+    "Give me a short description of the package:"
+  )
+  const memberPath = path
+    .relative(rootDirectory, path.resolve(packagesDirectory, memberSettings.path || "."))
+    .split(path.sep)
+    .join("/")
+
+  if (path.posix.dirname(memberPath) !== monorepoPackagesDirectory) {
+    io.error(
+      chalk.red(`The package needs to be directly inside ${monorepoPackagesDirectory}, please choose another name`)
+    )
+    return addMonorepoMember(settings)
+  }
+  if (members.some(member => member.path === memberPath || member.name === memberSettings.name)) {
+    io.error(chalk.red(`The monorepo already contains ${memberSettings.name}, please choose another name`))
+    return addMonorepoMember(settings)
   }
 
-  const validRepoUrl = settings.repo ? validateGitRepo(settings.repo) : false
-
-  const accessToken = await createGithubAccessToken()
-  await getUserRepos(accessToken)
-  const userInfo = await getUserInfo(accessToken)
-
-  const newSettings: PackageSettings = {
+  return {
     ...settings,
-    gitAccount: {
-      type: "github",
-      username: userInfo.name,
-      confidence: 1,
-    },
-    githubToken: accessToken,
-    githubUsername: userInfo.name,
+    members: [
+      ...members,
+      {
+        name: memberSettings.name || normalizeString(memberPath),
+        description: memberSettings.description || undefined,
+        type: memberSettings.type === "application" ? "application" : "library",
+        path: memberPath,
+      },
+    ],
   }
-
-  return (await validRepoUrl) ? newSettings : await addRepoUrl(newSettings)
 }
 
-const selectOrigin = async (settings: PackageSettings) => {
-  const defaultRepoUrl =
-    settings.gitAccount && settings.name
-      ? buildGitRepoUrl(settings.gitAccount.type, settings.gitAccount.username, settings.name)
-      : ""
+/** Add a library as the first package of the new monorepo, when no questions are asked. More can be added later */
+const addDefaultMonorepoMember = async (settings: PackageSettings): Promise<PackageSettings> => {
+  const rootName = settings.name ?? ""
+  const scope = settings.scope ?? /^@([^/]+)\//.exec(rootName)?.[1]
+  return {
+    ...settings,
+    members: [
+      {
+        name: scope ? `@${scope}/core` : `${normalizeString(rootName) || "monorepo"}-core`,
+        type: "library",
+        path: `${monorepoPackagesDirectory}/core`,
+      },
+    ],
+  }
+}
 
-  const result = await prompts(
+/** Ask for the packages of the new monorepo, until the user does not want to add another one */
+const askMonorepoMembers = async (settings: PackageSettings): Promise<PackageSettings> => {
+  const newSettings = await addMonorepoMember(settings)
+  const result = await io.prompt(
     {
-      type: "text",
-      name: "repo",
-      message: "Do you already have a git repository?",
-      initial: settings.repo || defaultRepoUrl,
-      validate: repo =>
-        repo.startsWith("http") || repo.startsWith("git@") || repo.startsWith("ssh") || repo === ""
-          ? true
-          : "Please enter a valid git repository URL",
+      type: "confirm",
+      name: "addMember",
+      message: "Do you want to add another package to the monorepo?",
+      initial: false,
     },
     { onCancel }
   )
 
-  const repoExists = result.repo && (await validateGitRepo(result.repo))
-  const parsedRepoName = result.repo?.split(":")?.[1]?.replace(".git", "").split("/")[1]
-  const githubUrl = buildGitRepoUrl("github", settings.githubUsername || "", parsedRepoName)
-
-  if (!repoExists && settings.githubToken && githubUrl === result.repo) {
-    const result = await prompts(
-      {
-        type: "confirm",
-        name: "create",
-        message: `Do you want to create the repo on github? (Signed in as ${settings.githubUsername})`,
-        initial: true,
-      },
-      { onCancel }
-    )
-    if (result.create) {
-      const settingsWithDescription = settings.description
-        ? settings
-        : await selectDescription(settings, "You should add a short description.")
-      await createGithubRepo(settingsWithDescription.githubToken || "", parsedRepoName, settings.description || "")
-    }
-  }
+  return result.addMember ? askMonorepoMembers(newSettings) : newSettings
+}
 
-  const defaultBranch =
-    settings.branch ||
-    (parsedRepoName && settings.githubToken && githubUrl === result.repo
-      ? await getDefaultBranch(settings.githubToken, parsedRepoName)
-      : undefined)
+/** Switch to another github host and use the credentials for it, if there are any */
+const applyGithubHost = async (settings: PackageSettings, host: string): Promise<PackageSettings> => {
+  const credentials = providers.github.getStoredCredentials().find(credentials => credentials.host === host)
+  const resolvedToken = settings.offline ? undefined : await providers.github.resolveToken(shell, host)
+  const githubUsername = resolvedToken?.userInfo?.login ?? credentials?.user
+  const tokenWorks = !!resolvedToken?.accessToken
 
   return {
     ...settings,
-    repo: (result.repo || undefined) as string | undefined,
-    branch: defaultBranch,
+    githubHost: host,
+    githubToken: resolvedToken?.accessToken,
+    githubTokenSource: resolvedToken?.source,
+    githubUsername: githubUsername,
+    gitProtocol: credentials?.protocol ?? settings.gitProtocol,
+    gitAccount: githubUsername
+      ? { type: "github", host: host, username: githubUsername, confidence: tokenWorks ? 1 : 0.5 }
+      : settings.gitAccount?.type === "github"
+      ? undefined
+      : settings.gitAccount,
   }
 }
 
-const selectPackageManager = async (settings: PackageSettings) => {
-  const result = await prompts(
+const selectGithubHost = async (settings: PackageSettings) => {
+  const knownHosts = [...new Set([defaultGithubHost, ...(settings.githubCliHosts ?? [])])]
+  const result = await io.prompt(
+    [
+      {
+        type: "select",
+        name: "host",
+        message: "Which github instance do you want to use?",
+        choices: [
+          ...knownHosts.map(host => ({
+            title: host,
+            value: host,
+            description: settings.githubCliHosts?.includes(host) ? "Signed in" : undefined,
+          })),
+          { title: "Another host", value: "", description: "A github enterprise server" },
+        ],
+        initial: Math.max(knownHosts.indexOf(getGithubHost(settings)), 0),
+      },
+      {
+        type: previous => (previous ? null : "text"),
+        name: "customHost",
+        message: "What is the hostname of your github enterprise server?",
+        validate: (host: string) =>
+          /^[a-z0-9.-]+(:[0-9]+)?$/i.test(host) ? true : "Please enter a hostname like github.example.com",
+      },
+    ],
+    { onCancel }
+  )
+
+  return applyGithubHost(settings, (result.customHost || result.host) as string)
+}
+
+const selectGitAccount = async (settings: PackageSettings): Promise<PackageSettings> => {
+  const result = await io.prompt(
     {
       type: "select",
-      name: "packageManager",
-      message: "What package manager do you use?",
+      name: "host",
+      message: "Please sign in so I can find or create a repository for this package.",
       choices: [
+        { title: `Sign into GitHub (${getGithubHost(settings)})`, value: "github" },
         {
-          title: "Npm",
-          value: "npm",
-          description: "The package manager that comes with node",
+          title: `Sign into GitLab (${getGitlabHost(settings)})`,
+          value: "gitlab",
+          description: "Requires a personal access token",
         },
         {
-          title: "pNpm",
-          value: "pnpm",
-          description: "Fast, disk space efficient package manager",
+          title: settings.giteaHost
+            ? `Sign into Gitea or Forgejo (${settings.giteaHost})`
+            : "Sign into Gitea or Forgejo",
+          value: "gitea",
+          description: "Requires an access token for your instance",
         },
-        { title: "Yarn", value: "yarn", description: "The yarn package manager. I think yarn classic" },
+        { title: "Skip", value: "skip", description: "Continue without a git hosting account" },
       ],
+      initial: settings.gitAccount?.type === "gitlab" ? 1 : 0,
     },
     { onCancel }
   )
 
-  return {
-    ...settings,
-    packageManager: result.packageManager as PackageSettings["packageManager"],
+  switch (result.host) {
+    case "github":
+      return signIntoGithub(settings)
+    case "gitlab":
+      return signIntoGitlab(settings)
+    case "gitea":
+      return signIntoGitea(settings)
+    default:
+      return settings
   }
 }
 
-const awaitWithTimeout = async <T>(promise: Promise<T>, timeout: number, defaultValue: T): Promise<T> => {
-  const timeoutPromise = new Promise<T>((resolve, reject) => {
-    setTimeout(() => {
-      defaultValue !== undefined ? resolve(defaultValue) : reject(new Error("Timeout"))
-    }, timeout)
-  })
-
-  return await (Promise<T>).race([promise, timeoutPromise])
-}
-
-const reviewSettings = async (settings: PackageSettings): Promise<PackageSettings> => {
-  const repoExists = settings.repo ? validateGitRepo(settings.repo) : (async () => true)()
-  const shortTimeoutRepoExists = (repoExists && (await awaitWithTimeout(repoExists, 100, true))) || false
-
-  console.log(`I will create the ${chalk.blue(settings.type)} package ${chalk.blue(settings.name)} into ${chalk.blue(settings.path)}`)
-  // if (settings.authorName || settings.authorEmail) {
-  //   console.log(
-  //     `I will set the author as ${chalk.blue(settings.authorName)}${
-  //       settings.authorEmail ? ` <${chalk.blue(settings.authorEmail)}> ` : " "
-  //     }. ${settings.description ? "You haven't defined a description yet, if you want you can do this now." : ""}`
-  //   )
-  // }
-
-  if (settings.monorepo) {
-    console.log(
-      `I won't create a git repository, because the package is inside a ${chalk.blue("monorepo")} ${
-        settings.repo ? `(${chalk.blue(settings.repo)})` : ""
-      }`
-    )
-  } else {
-    if (settings.repo) {
-      console.log(
-        `I will use the git repository at ${chalk.blue(settings.repo)} as the remote repository.
-        ${!shortTimeoutRepoExists ? chalk.red("The repository does not exist, please create it before continuing.") : ""}`
-      )
-    } else {
-      console.log(
-        `I will create a local git repository for the package. If you want to start with a github repo, configure the git url now.`
-      )
-    }
+/** Offer to store a new github token, so the user does not need to sign in again next time */
+const storeGithubToken = async (
+  settings: PackageSettings,
+  host: string,
+  accessToken: string,
+  username: string
+): Promise<GithubTokenSource> => {
+  // A dry run does not change any files
+  if (settings.dryRun) {
+    return "signIn"
   }
 
-  const missingKeys = [
-    ...(settings.type ? [] : ["type"]),
-    ...(settings.name ? [] : ["name"]),
-    ...(settings.path ? [] : ["path"]),
-    ...(settings.repo && !shortTimeoutRepoExists ? ["repo"] : []),
-  ]
-
-  const result = await prompts(
+  const result = await io.prompt(
     {
       type: "select",
-      name: "selection",
-      message: "Are you ready to create?",
-      warn: `You need to set ${missingKeys.join(", ")}`,
+      name: "source",
+      message: "Do you want to store the token for the next time?",
       choices: [
         {
-          title: "Yes, let's go!",
-          description: "Create the package with the current settings",
-          value: "create",
-          disabled: missingKeys.length > 0,
-        },
-        {
-          title: settings.description ? `Description  : ${settings.description}` : `Add a package description`,
-          description: "Change the description",
-          value: "description",
-        },
-        { title: `Type         : ${settings.type}`, description: "Change what what your packages is", value: "type" },
-        {
-          title: settings.name ? `Name         : ${settings.name}` : `Set the package name`,
-          description: "Change the package name",
-          value: "name",
-        },
-        {
-          title: settings.path ? `Location     : ${settings.path}` : `Select the install location`,
-          description: "Change the install location",
-          value: "path",
-        },
-        {
-          title: settings.authorName ? `Author       : ${settings.authorName}` : `Add an author`,
-          description: "Change the name of the author",
-          value: "authorName",
-        },
-        {
-          title: settings.authorEmail ? `Author email : ${settings.authorEmail}` : `Add your email as author`,
-          description: "Change the email of the author",
-          value: "authorEmail",
-        },
-        {
-          title: settings.repo ? `Git url      : ${settings.repo}` : `Select a git repo`,
-          description: "Change the url of the origin git repository",
-          value: "repo",
-        },
-        {
-          title: settings.monorepo ? `In monorepo  : yes` : `In monorepo  : no`,
-          description: "Set to true if your project is not in the root of a git repo",
-          value: "monorepo",
+          title: "Store it in the github cli config",
+          description: "The github cli (gh) will also use it",
+          value: "githubCli",
         },
         {
-          title: settings.packageManager ? `Lockfiles    : ${settings.packageManager}` : `Select your package manager`,
-          description: "Select which package manager you are going to use",
-          value: "packageManager",
+          title: "Store it only for create-typescript-thing",
+          description: `Only readable by you, in ${credentialStorePath}`,
+          value: "credentialStore",
         },
+        { title: "Do not store it", description: "You need to sign in again next time", value: "" },
       ],
-      initial: 0,
+      initial: settings.staleGithubToken?.source === "credentialStore" ? 1 : 0,
     },
     { onCancel }
   )
 
-  switch (result.selection) {
-    case "create": {
-      if (settings.repo && !(await repoExists)) {
-        console.log(chalk.red("The repository does not exist, please create it before continuing."))
-        return reviewSettings(settings)
-      }
-      return settings
+  try {
+    switch (result.source) {
+      case "githubCli":
+        setGithubCliCredentials(host, accessToken, username, settings.gitProtocol)
+        return "githubCli"
+      case "credentialStore":
+        storeCredential({ host, accessToken, user: username })
+        return "credentialStore"
+      default:
+        return "signIn"
     }
-    case "type":
-      return reviewSettings(await selectType(settings))
-    case "name":
-      return reviewSettings(await selectName(settings))
-    case "description":
-      return reviewSettings(await selectDescription(settings))
+  } catch (error) {
+    io.log(chalk.red(`Failed to store the token: ${(error as Error).message}`))
+    return "signIn"
+  }
+}
+
+/** Offer to replace or remove a stored github token that does not work anymore */
+const handleStaleGithubToken = async (settings: PackageSettings): Promise<PackageSettings> => {
+  const staleToken = settings.staleGithubToken
+  if (!staleToken) {
+    return settings
+  }
+
+  const result = await io.prompt(
+    {
+      type: "select",
+      name: "action",
+      message: `The token for ${staleToken.host} from ${describeGithubTokenSource(
+        staleToken.source,
+        staleToken.host
+      )} does not work. What do you want to do?`,
+      choices: [
+        { title: "Sign in again", value: "replace" },
+        ...(staleToken.source === "credentialStore" && !settings.dryRun
+          ? [{ title: "Remove it", description: `Removes it from ${credentialStorePath}`, value: "remove" }]
+          : []),
+        { title: "Continue without it", value: "ignore" },
+      ],
+      initial: 0,
+    },
+    { onCancel }
+  )
+
+  switch (result.action) {
+    case "replace":
+      return await signIntoGithub({ ...settings, githubHost: staleToken.host })
+    case "remove":
+      removeStoredCredential(staleToken.host)
+      return { ...settings, staleGithubToken: undefined }
+    default:
+      return { ...settings, staleGithubToken: undefined }
+  }
+}
+
+/** Offer to replace or remove the token in our credential store */
+const manageStoredGithubToken = async (settings: PackageSettings): Promise<PackageSettings> => {
+  const host = getGithubHost(settings)
+  const result = await io.prompt(
+    {
+      type: "select",
+      name: "action",
+      message: `What do you want to do with your stored token for ${host}?`,
+      choices: [
+        { title: "Keep it", value: "keep" },
+        { title: "Sign in again and replace it", value: "replace" },
+        ...(settings.dryRun
+          ? []
+          : [
+              {
+                title: "Remove it",
+                description: "You can continue to use it for this package, it will not be stored anymore",
+                value: "remove",
+              },
+            ]),
+      ],
+      initial: 0,
+    },
+    { onCancel }
+  )
+
+  switch (result.action) {
+    case "replace": {
+      const newSettings = await signIntoGithub({ ...settings, githubToken: undefined })
+      return newSettings.githubToken ? newSettings : settings
+    }
+    case "remove":
+      removeStoredCredential(host)
+      io.log(
+        `Removed the token from ${chalk.blue(credentialStorePath)}. You can revoke it at ${chalk.blue(
+          getTokenRevocationUrl(host)
+        )}`
+      )
+      return { ...settings, githubTokenSource: "signIn" }
+    default:
+      return settings
+  }
+}
+
+const signIntoGithub = async (settings: PackageSettings): Promise<PackageSettings> => {
+  const validRepoUrl = settings.repo ? validateGitRepo(settings, settings.repo) : false
+
+  const host = getGithubHost(settings)
+  const accessToken = await providers.github.signIn(io, host)
+  if (!accessToken) {
+    return settings
+  }
+  await providers.github.listRepos(accessToken, host)
+  const userInfo = await providers.github.getUserInfo(accessToken, host)
+  const tokenSource = await storeGithubToken(settings, host, accessToken, userInfo.login)
+
+  const newSettings: PackageSettings = {
+    ...settings,
+    gitAccount: {
+      type: "github",
+      host: host,
+      username: userInfo.login,
+      confidence: 1,
+    },
+    githubToken: accessToken,
+    githubTokenSource: tokenSource,
+    githubUsername: userInfo.login,
+    staleGithubToken: undefined,
+  }
+
+  return (await validRepoUrl) ? newSettings : await addRepoUrl(newSettings)
+}
+
+const signIntoGitlab = async (settings: PackageSettings): Promise<PackageSettings> => {
+  const validRepoUrl = settings.repo ? validateGitRepo(settings, settings.repo) : false
+
+  const host = getGitlabHost(settings)
+  const accessToken = await providers.gitlab.signIn(io, host)
+  if (!accessToken) {
+    return settings
+  }
+  await providers.gitlab.listProjects(accessToken, host)
+  const userInfo = await providers.gitlab.getUserInfo(accessToken, host)
+
+  const newSettings: PackageSettings = {
+    ...settings,
+    gitAccount: {
+      type: "gitlab",
+      host: host,
+      username: userInfo.username,
+      confidence: 1,
+    },
+    gitlabToken: accessToken,
+    gitlabUsername: userInfo.username,
+  }
+
+  return (await validRepoUrl) ? newSettings : await addRepoUrl(newSettings)
+}
+
+const signIntoGitea = async (settings: PackageSettings): Promise<PackageSettings> => {
+  const hostResult = await io.prompt(
+    {
+      type: "text",
+      name: "host",
+      message: "What is the address of your Gitea or Forgejo instance?",
+      initial: settings.giteaHost || "",
+      validate: (host: string) =>
+        /^(https?:\/\/)?[a-z0-9.-]+(:[0-9]+)?\/?$/i.test(host) ? true : "Please enter a hostname like git.example.com",
+    },
+    { onCancel }
+  )
+  const host = hostResult.host as string
+
+  const validRepoUrl = settings.repo ? validateGitRepo(settings, settings.repo) : false
+
+  const accessToken = await providers.gitea.signIn(io, host)
+  if (!accessToken) {
+    return { ...settings, giteaHost: host }
+  }
+  await providers.gitea.listRepos(accessToken, host)
+  const userInfo = await providers.gitea.getUserInfo(accessToken, host)
+
+  const newSettings: PackageSettings = {
+    ...settings,
+    gitAccount: {
+      type: "gitea",
+      host: getGiteaSshHost(host),
+      username: userInfo.username,
+      confidence: 1,
+    },
+    giteaHost: host,
+    giteaToken: accessToken,
+    giteaUsername: userInfo.username,
+  }
+
+  return (await validRepoUrl) ? newSettings : await addRepoUrl(newSettings)
+}
+
+const getProviderUsername = (settings: PackageSettings, provider: GitAccountInfo["type"]) => {
+  switch (provider) {
+    case "github":
+      return settings.githubUsername
+    case "gitlab":
+      return settings.gitlabUsername
+    case "gitea":
+      return settings.giteaUsername
+  }
+}
+
+/** Find out on which of the signed in git hosts a git url is located */
+const parseRepositoryUrl = async (settings: PackageSettings, url: string): Promise<HostedRepository | undefined> => {
+  if (settings.githubToken) {
+    const githubHost = getGithubHost(settings)
+    const githubOrganizations = await providers.github
+      .getOrganizations(settings.githubToken, githubHost)
+      .catch(() => [])
+    const githubOwners = [...(settings.githubUsername ? [settings.githubUsername] : []), ...githubOrganizations]
+    const [owner, name] = (url.split(":")?.[1]?.replace(".git", "").split("/") ?? []) as Array<string | undefined>
+    if (owner && name && githubOwners.includes(owner) && buildGitRepoUrl(githubHost, owner, name) === url) {
+      return { provider: "github", host: githubHost, owner, name, url }
+    }
+  }
+
+  const gitlabProjectPath = settings.gitlabToken ? parseGitlabProjectPath(url, getGitlabHost(settings)) : undefined
+  if (gitlabProjectPath && gitlabProjectPath.includes("/")) {
+    return {
+      provider: "gitlab",
+      host: getGitlabHost(settings),
+      owner: gitlabProjectPath.split("/").slice(0, -1).join("/"),
+      name: gitlabProjectPath.split("/").at(-1) || "",
+      url,
+    }
+  }
+
+  const giteaRepoPath =
+    settings.giteaToken && settings.giteaHost ? parseGiteaRepoPath(url, settings.giteaHost) : undefined
+  if (giteaRepoPath && settings.giteaHost) {
+    return { provider: "gitea", host: settings.giteaHost, ...giteaRepoPath, url }
+  }
+
+  return undefined
+}
+
+const getHostedRepositoryDefaultBranch = async (settings: PackageSettings, repository: HostedRepository) => {
+  const fullName = `${repository.owner}/${repository.name}`
+  switch (repository.provider) {
+    case "github":
+      return settings.githubToken
+        ? await providers.github.getDefaultBranch(settings.githubToken, fullName, repository.host)
+        : undefined
+    case "gitlab":
+      return settings.gitlabToken
+        ? await providers.gitlab.getDefaultBranch(settings.gitlabToken, fullName, repository.host)
+        : undefined
+    case "gitea":
+      return settings.giteaToken
+        ? await providers.gitea.getDefaultBranch(settings.giteaToken, fullName, repository.host)
+        : undefined
+  }
+}
+
+const deleteHostedRepository = async (settings: PackageSettings, repository: HostedRepository) => {
+  const fullName = `${repository.owner}/${repository.name}`
+  switch (repository.provider) {
+    case "github":
+      if (!settings.githubToken) {
+        throw new Error(`You need to sign into ${repository.host} to delete the repository`)
+      }
+      return await providers.github.deleteRepo(settings.githubToken, fullName, repository.host)
+    case "gitlab":
+      if (!settings.gitlabToken) {
+        throw new Error(`You need to sign into ${repository.host} to delete the repository`)
+      }
+      return await providers.gitlab.deleteRepo(settings.gitlabToken, fullName, repository.host)
+    case "gitea":
+      if (!settings.giteaToken) {
+        throw new Error(`You need to sign into ${repository.host} to delete the repository`)
+      }
+      return await providers.gitea.deleteRepo(settings.giteaToken, fullName, repository.host)
+  }
+}
+
+/** Get the repository that will be created, if it is still the selected repo */
+const getPlannedRepository = (settings: PackageSettings) =>
+  settings.plannedRepository && settings.plannedRepository.url === settings.repo && !settings.monorepo
+    ? settings.plannedRepository
+    : undefined
+
+/** Create the planned repository on its git host. The side effect that deletes it is added as soon as it exists */
+const createPlannedRepository = async (
+  settings: PackageSettings,
+  sideEffects: SideEffect[]
+): Promise<PackageSettings> => {
+  const plannedRepository = getPlannedRepository(settings)
+  if (!plannedRepository) {
+    return settings
+  }
+
+  const { provider, host, owner, name } = plannedRepository
+  // The hosts call this as soon as the repository exists, as configuring it can still fail
+  const registerRepository = () => {
+    sideEffects.push({
+      description: `Created the repository ${plannedRepository.url} on ${host}`,
+      confirmation: `Do you really want to delete the repository ${plannedRepository.url}? This can not be undone.`,
+      undo: () => deleteHostedRepository(settings, plannedRepository),
+    })
+  }
+  const options = getRepositoryOptions(settings)
+  const description = settings.description || ""
+  switch (provider) {
+    case "github":
+      if (!settings.githubToken) {
+        throw new Error(`You need to sign into ${host} to create the repository`)
+      }
+      await providers.github.createRepo(
+        settings.githubToken,
+        owner,
+        name,
+        description,
+        host,
+        options,
+        registerRepository
+      )
+      break
+    case "gitlab":
+      if (!settings.gitlabToken) {
+        throw new Error(`You need to sign into ${host} to create the repository`)
+      }
+      await providers.gitlab.createRepo(
+        settings.gitlabToken,
+        `${owner}/${name}`,
+        description,
+        host,
+        options,
+        registerRepository
+      )
+      break
+    case "gitea":
+      if (!settings.giteaToken) {
+        throw new Error(`You need to sign into ${host} to create the repository`)
+      }
+      await providers.gitea.createRepo(settings.giteaToken, owner, name, description, host, options, registerRepository)
+      break
+  }
+
+  return {
+    ...settings,
+    plannedRepository: undefined,
+    branch: settings.branch || (await getHostedRepositoryDefaultBranch(settings, plannedRepository)),
+  }
+}
+
+/** Make sure the github token can create the planned repository. Offers to sign in again, if it can not */
+const checkRepositoryPermissions = async (
+  settings: PackageSettings,
+  interactive: boolean
+): Promise<PackageSettings> => {
+  const plannedRepository = getPlannedRepository(settings)
+  if (plannedRepository?.provider !== "github" || !settings.githubToken) {
+    return settings
+  }
+
+  const host = plannedRepository.host
+  const missingPermissions = await providers.github.getMissingRepoPermissions(
+    settings.githubToken,
+    host,
+    getRepositoryOptions(settings).visibility
+  )
+  if (!missingPermissions) {
+    return settings
+  }
+  if (missingPermissions.unverified) {
+    io.log(chalk.yellow(missingPermissions.message))
+    return settings
+  }
+
+  const problem = `The github token from ${describeGithubTokenSource(
+    settings.githubTokenSource ?? "signIn",
+    plannedRepository.host
+  )} can not create ${plannedRepository.url}. ${missingPermissions.message}`
+  if (!interactive) {
+    throw new Error(problem)
+  }
+  io.log(chalk.red(problem))
+
+  const result = await io.prompt(
+    {
+      type: "confirm",
+      name: "reauthenticate",
+      message: `Do you want to sign in again with the ${missingPermissions.scopes.join(", ")} scope?`,
+      initial: true,
+    },
+    { onCancel }
+  )
+  const accessToken = result.reauthenticate
+    ? await providers.github.signIn(io, host, missingPermissions.scopes)
+    : undefined
+  if (!accessToken) {
+    throw new Error(problem)
+  }
+
+  const userInfo = await providers.github.getUserInfo(accessToken, host)
+  const tokenSource = await storeGithubToken(settings, host, accessToken, userInfo.login)
+  return await checkRepositoryPermissions(
+    { ...settings, githubToken: accessToken, githubTokenSource: tokenSource, githubUsername: userInfo.login },
+    interactive
+  )
+}
+
+/** Plan to create the selected repo, or the repo for the current account, if it does not exist yet */
+const planRepository = async (settings: PackageSettings): Promise<PackageSettings> => {
+  if (settings.offline) {
+    io.log(chalk.yellow("I can not create a repository in offline mode."))
+    return settings
+  }
+  const url =
+    settings.repo ??
+    (settings.gitAccount && settings.name
+      ? buildGitRepoUrl(settings.gitAccount.host, settings.gitAccount.username, settings.name)
+      : undefined)
+  if (!url || settings.monorepo || (await validateGitRepo(settings, url))) {
+    return settings
+  }
+
+  const hostedRepository = await parseRepositoryUrl(settings, url)
+  if (!hostedRepository) {
+    io.log(chalk.yellow(`I can not create ${url}, because you are not signed into its git host.`))
+    return settings
+  }
+
+  return { ...settings, repo: url, plannedRepository: hostedRepository }
+}
+
+const selectRepositoryOptions = async (settings: PackageSettings): Promise<PackageSettings> => {
+  const options = getRepositoryOptions(settings)
+  const visibilities = ["public", "private", "internal"] as const
+
+  const result = await io.prompt(
+    [
+      {
+        type: "select",
+        name: "visibility",
+        message: "Who should be able to see the repository?",
+        choices: [
+          { title: "Public", value: "public", description: "Everyone" },
+          { title: "Private", value: "private", description: "Only you and the people you add" },
+          {
+            title: "Internal",
+            value: "internal",
+            description: "Members of your enterprise. Only for github organizations and gitlab",
+          },
+        ],
+        initial: visibilities.indexOf(options.visibility),
+      },
+      {
+        type: "text",
+        name: "licenseTemplate",
+        message: "Which license should be added? (e.g. MIT or Apache-2.0, leave empty for none)",
+        initial: options.licenseTemplate,
+      },
+      {
+        type: "text",
+        name: "gitignoreTemplate",
+        message: "Which gitignore template should be added? (e.g. Node, leave empty for none)",
+        initial: options.gitignoreTemplate,
+      },
+      {
+        type: "confirm",
+        name: "autoInit",
+        message: "Should the repository start with an initial commit?",
+        initial: options.autoInit,
+      },
+      {
+        type: "list",
+        name: "topics",
+        message: "Which topics should the repository have? (comma separated)",
+        initial: options.topics.join(", "),
+        separator: ",",
+      },
+      {
+        type: "text",
+        name: "homepage",
+        message: "What is the homepage of the project? (leave empty to use the repository)",
+        initial: options.homepage || "",
+      },
+      {
+        type: "multiselect",
+        name: "features",
+        message: "Which features should be enabled?",
+        choices: [
+          { title: "Issues", value: "hasIssues", selected: options.hasIssues },
+          { title: "Wiki", value: "hasWiki", selected: options.hasWiki },
+          { title: "Projects", value: "hasProjects", selected: options.hasProjects },
+        ],
+        instructions: false,
+      },
+    ],
+    { onCancel }
+  )
+
+  const features = result.features as Array<"hasIssues" | "hasWiki" | "hasProjects">
+
+  return {
+    ...settings,
+    repositoryOptions: {
+      visibility: result.visibility as RepositoryOptions["visibility"],
+      licenseTemplate: (result.licenseTemplate as string).trim(),
+      gitignoreTemplate: (result.gitignoreTemplate as string).trim(),
+      autoInit: result.autoInit as boolean,
+      topics: (result.topics as string[]).filter(topic => topic),
+      homepage: (result.homepage as string).trim() || undefined,
+      hasIssues: features.includes("hasIssues"),
+      hasWiki: features.includes("hasWiki"),
+      hasProjects: features.includes("hasProjects"),
+    },
+  }
+}
+
+/** Select whether the repository should belong to the user or to one of their github organizations */
+const selectGithubOwner = async (settings: PackageSettings, owners: string[]) => {
+  const currentOwner = settings.repo?.split(":")?.[1]?.split("/")[0]
+
+  const result = await io.prompt(
+    {
+      type: "select",
+      name: "owner",
+      message: "Who should own the repository?",
+      choices: owners.map(owner => ({
+        title: owner,
+        value: owner,
+        description: owner === settings.githubUsername ? "Your personal account" : "Organization",
+      })),
+      initial: Math.max(currentOwner ? owners.indexOf(currentOwner) : 0, 0),
+    },
+    { onCancel }
+  )
+
+  return result.owner as string
+}
+
+type AccountRepository = {
+  name: string
+  fullName: string
+  url: string
+  visibility: "public" | "private" | "internal"
+  archived: boolean
+  description?: string | undefined
+}
+
+type AccountRepositories = {
+  /** Get the repositories that were loaded so far */
+  get: () => AccountRepository[]
+  /** The number of repositories that were skipped, because the git host returned malformed data for them */
+  skipped: () => number
+  loading: () => boolean
+}
+
+/** Get the repositories of the current git account. Returns undefined if we are not signed into it */
+const getAccountRepositories = async (settings: PackageSettings): Promise<AccountRepositories | undefined> => {
+  switch (settings.gitAccount?.type) {
+    case "github": {
+      if (!settings.githubToken) {
+        return undefined
+      }
+      const host = getGithubHost(settings)
+      const listing = await providers.github.listRepos(settings.githubToken, host)
+      let loading = true
+      listing.complete.then(
+        () => (loading = false),
+        () => (loading = false)
+      )
+      return {
+        get: () => listing.repos.map(repo => ({ ...repo, url: `git@${host}:${repo.fullName}.git` })),
+        skipped: () => listing.skipped,
+        loading: () => loading,
+      }
+    }
+    case "gitlab": {
+      if (!settings.gitlabToken) {
+        return undefined
+      }
+      const host = getGitlabHost(settings)
+      const projects = await providers.gitlab.listProjects(settings.gitlabToken, host)
+      const repositories = projects.map(project => ({ ...project, url: `git@${host}:${project.fullName}.git` }))
+      return { get: () => repositories, skipped: () => 0, loading: () => false }
+    }
+    case "gitea": {
+      if (!settings.giteaToken || !settings.giteaHost) {
+        return undefined
+      }
+      const host = settings.giteaHost
+      const repos = await providers.gitea.listRepos(settings.giteaToken, host)
+      const repositories = repos.map(repo => ({ ...repo, url: `git@${getGiteaSshHost(host)}:${repo.fullName}.git` }))
+      return { get: () => repositories, skipped: () => 0, loading: () => false }
+    }
+    case undefined:
+      return undefined
+  }
+}
+
+type RepositoryChoice = { type: "url"; url: string; archived: boolean } | { type: "new" } | { type: "manual" }
+
+const looksLikeGitUrl = (input: string) => /^(https?:\/\/|ssh:\/\/|git@)/.test(input)
+
+/**
+ * Let the user search through their repositories. Matches for the package name are listed first.
+ * Repositories that are still loading show up as soon as the user types.
+ */
+const selectRepository = async (
+  settings: PackageSettings,
+  accountRepositories: AccountRepositories
+): Promise<RepositoryChoice> => {
+  const toChoice = (repository: AccountRepository) => ({
+    title: `${repository.fullName} ${chalk.gray(repository.visibility)}${
+      repository.archived ? chalk.yellow(" (archived)") : ""
+    }`,
+    description: repository.description,
+    value: { type: "url", url: repository.url, archived: repository.archived } as RepositoryChoice,
+  })
+  const rankRepositories = (repositories: AccountRepository[], needle: string) => {
+    const ranked = rankFuzzy(needle, repositories, ({ name, fullName }) => [name, fullName])
+    // Archived repositories are listed last, so they do not get picked by accident
+    return [...ranked.filter(({ archived }) => !archived), ...ranked.filter(({ archived }) => archived)]
+  }
+
+  const newChoice = {
+    title: settings.name ? `Create a new repository for ${settings.name}` : "Create a new repository",
+    value: { type: "new" } as RepositoryChoice,
+  }
+  const getManualChoice = () => ({
+    title: "Enter a repository URL",
+    description: accountRepositories.loading()
+      ? "Use a repository that is not listed here. Some repositories are still loading"
+      : accountRepositories.skipped()
+      ? `Use a repository that is not listed here. ${accountRepositories.skipped()} repositories could not be loaded`
+      : "Use a repository that is not listed here",
+    value: { type: "manual" } as RepositoryChoice,
+  })
+
+  const getChoices = (input: string) => {
+    const repositories = accountRepositories.get()
+    const manualChoice = getManualChoice()
+    if (input) {
+      return [
+        ...(looksLikeGitUrl(input)
+          ? [{ title: `Use ${input}`, value: { type: "url", url: input, archived: false } as RepositoryChoice }]
+          : []),
+        ...rankRepositories(repositories, input).map(toChoice),
+        newChoice,
+        manualChoice,
+      ]
+    }
+
+    const matchingRepositories = rankRepositories(repositories, settings.name ?? "")
+    const otherRepositories = repositories.filter(repository => !matchingRepositories.includes(repository))
+    const repositoryChoices = [...matchingRepositories, ...otherRepositories].map(toChoice)
+    const repositoryExists = repositories.some(({ name, archived }) => name === settings.name && !archived)
+    return repositoryExists
+      ? [...repositoryChoices, newChoice, manualChoice]
+      : [newChoice, ...repositoryChoices, manualChoice]
+  }
+
+  const choices = getChoices("")
+  const currentIndex = choices.findIndex(
+    ({ value }) => value.type === "url" && settings.repo && value.url === settings.repo
+  )
+
+  const result = await io.prompt(
+    {
+      type: "autocomplete",
+      name: "repository",
+      message: "Which git repository should be used? (Type to search)",
+      choices: choices,
+      initial: Math.max(currentIndex, 0),
+      suggest: async (input: string) => getChoices(input.trim()),
+    },
+    { onCancel }
+  )
+  const repository = result.repository as RepositoryChoice | undefined
+  // The autocomplete prompt does not cancel on escape, it just returns nothing
+  if (!repository) {
+    return onCancel()
+  }
+
+  if (repository.type === "url" && repository.archived) {
+    const confirmation = await io.prompt(
+      {
+        type: "confirm",
+        name: "useArchived",
+        message: `${repository.url} is archived. Do you really want to use it?`,
+        initial: false,
+      },
+      { onCancel }
+    )
+    if (!confirmation.useArchived) {
+      return await selectRepository(settings, accountRepositories)
+    }
+  }
+
+  return repository
+}
+
+/** Get the url for a new repository. Asks for the owner, if the user is a member of a github organization */
+const getNewRepositoryUrl = async (settings: PackageSettings) => {
+  const githubOrganizations =
+    settings.gitAccount?.type === "github" && settings.githubToken
+      ? await providers.github.getOrganizations(settings.githubToken, getGithubHost(settings)).catch(() => [])
+      : []
+  const githubOwners = [...(settings.githubUsername ? [settings.githubUsername] : []), ...githubOrganizations]
+
+  const owner =
+    githubOrganizations.length > 0 ? await selectGithubOwner(settings, githubOwners) : settings.gitAccount?.username
+
+  return settings.gitAccount && owner && settings.name
+    ? buildGitRepoUrl(settings.gitAccount.host, owner, settings.name)
+    : ""
+}
+
+const enterRepositoryUrl = async (initial: string) => {
+  const result = await io.prompt(
+    {
+      type: "text",
+      name: "repo",
+      message: "Do you already have a git repository?",
+      initial: initial,
+      validate: repo =>
+        repo.startsWith("http") || repo.startsWith("git@") || repo.startsWith("ssh") || repo === ""
+          ? true
+          : "Please enter a valid git repository URL",
+    },
+    { onCancel }
+  )
+
+  return result.repo as string
+}
+
+const selectOrigin = async (settings: PackageSettings) => {
+  const repositories = await getAccountRepositories(settings).catch(() => undefined)
+  const repositoryChoice: RepositoryChoice = repositories
+    ? await selectRepository(settings, repositories)
+    : { type: "manual" }
+
+  const repo =
+    repositoryChoice.type === "url"
+      ? repositoryChoice.url
+      : repositoryChoice.type === "new"
+      ? await getNewRepositoryUrl(settings)
+      : await enterRepositoryUrl(
+          settings.repo || (repositories || settings.offline ? "" : await getNewRepositoryUrl(settings))
+        )
+
+  const repoExists = repo && (await validateGitRepo(settings, repo))
+  const hostedRepository = repo ? await parseRepositoryUrl(settings, repo) : undefined
+
+  const confirmation =
+    hostedRepository && !repoExists && repositoryChoice.type !== "new"
+      ? await io.prompt(
+          {
+            type: "confirm",
+            name: "create",
+            message: `Do you want to create the repo ${
+              hostedRepository.owner !== getProviderUsername(settings, hostedRepository.provider)
+                ? `in ${hostedRepository.owner} `
+                : ""
+            }on ${hostedRepository.host}? (Signed in as ${getProviderUsername(settings, hostedRepository.provider)})`,
+            initial: true,
+          },
+          { onCancel }
+        )
+      : undefined
+  const create = hostedRepository && !repoExists && (repositoryChoice.type === "new" || !!confirmation?.create)
+
+  const settingsWithDescription =
+    create && !settings.description
+      ? await selectDescription(settings, "You should add a short description.")
+      : settings
+
+  const defaultBranch =
+    settings.branch ||
+    (hostedRepository && repoExists ? await getHostedRepositoryDefaultBranch(settings, hostedRepository) : undefined)
+
+  return {
+    ...settingsWithDescription,
+    repo: repo || undefined,
+    branch: defaultBranch,
+    plannedRepository: create ? hostedRepository : undefined,
+  }
+}
+
+/** Ask which package manager to use. The preselected one shows why it was chosen */
+const selectPackageManager = async (settings: PackageSettings) => {
+  const getTitle = (title: string, packageManager: NonNullable<PackageSettings["packageManager"]>) => {
+    const version = settings.packageManagerVersions?.[packageManager]
+    return version ? `${title} ${describePackageManagerVersion(packageManager, version)}` : `${title} (not installed)`
+  }
+  const getDescription = (description: string, packageManager: PackageSettings["packageManager"]) =>
+    settings.packageManagerReason && packageManager === settings.packageManager
+      ? `Preselected, because ${settings.packageManagerReason}`
+      : description
+  const choices = [
+    {
+      title: getTitle("Npm", "npm"),
+      value: "npm",
+      description: getDescription("The package manager that comes with node", "npm"),
+    },
+    {
+      title: getTitle("pNpm", "pnpm"),
+      value: "pnpm",
+      description: getDescription("Fast, disk space efficient package manager", "pnpm"),
+    },
+    {
+      title: getTitle("Yarn", "yarn"),
+      value: "yarn",
+      description: getDescription("The yarn package manager, either yarn classic or berry", "yarn"),
+    },
+    {
+      title: getTitle("Bun", "bun"),
+      value: "bun",
+      description: getDescription("Fast runtime and package manager. The start and test scripts run with bun", "bun"),
+    },
+  ]
+
+  const result = await io.prompt(
+    {
+      type: "select",
+      name: "packageManager",
+      message: "What package manager do you use?",
+      choices: choices,
+      initial: Math.max(
+        choices.findIndex(({ value }) => value === settings.packageManager),
+        0
+      ),
+    },
+    { onCancel }
+  )
+  const packageManager = result.packageManager as PackageSettings["packageManager"]
+
+  return await selectPackageManagerPin({
+    ...settings,
+    packageManager,
+    packageManagerReason:
+      packageManager === settings.packageManager ? settings.packageManagerReason : selectedPackageManagerReason,
+  })
+}
+
+/** Ask whether the version of the package manager should be pinned with corepack */
+const selectPackageManagerPin = async (settings: PackageSettings) => {
+  // Packages in a workspace use the package manager of the workspace root
+  if (!canPinPackageManager(settings) || getWorkspace(settings)) {
+    return { ...settings, pinPackageManager: false }
+  }
+  const version = settings.packageManager && settings.packageManagerVersions?.[settings.packageManager]
+
+  const result = await io.prompt(
+    {
+      type: "confirm",
+      name: "pin",
+      message: `Add "packageManager": "${settings.packageManager}@${version}" to the package.json, so corepack uses this version?`,
+      initial: settings.pinPackageManager ?? true,
+    },
+    { onCancel }
+  )
+
+  return { ...settings, pinPackageManager: !!result.pin }
+}
+
+const awaitWithTimeout = async <T>(promise: Promise<T>, timeout: number, defaultValue: T): Promise<T> => {
+  const timeoutPromise = new Promise<T>((resolve, reject) => {
+    setTimeout(() => {
+      defaultValue !== undefined ? resolve(defaultValue) : reject(new Error("Timeout"))
+    }, timeout)
+  })
+
+  return await (Promise<T>).race([promise, timeoutPromise])
+}
+
+/** Get the settings that need to be set before the package can be created */
+const getMissingKeys = (settings: PackageSettings, repoExists: boolean) => [
+  ...(settings.type ? [] : ["type"]),
+  ...(settings.name ? [] : ["name"]),
+  ...(settings.path ? [] : ["path"]),
+  ...(settings.repo && !repoExists ? ["repo"] : []),
+  ...(settings.type === "monorepo" && !settings.members?.length ? ["packages"] : []),
+]
+
+/** Get the changes createTypescriptThing is going to make, so they can be undone if creating the package fails */
+const getPackageSideEffects = async (settings: PackageSettings): Promise<SideEffect[]> => {
+  const directory = path.resolve(settings.invokeDirectory, settings.path || ".")
+  if (!existsSync(directory)) {
+    let createdDirectory = directory
+    while (!existsSync(path.dirname(createdDirectory))) {
+      createdDirectory = path.dirname(createdDirectory)
+    }
+    return [
+      {
+        description: `Created the directory ${createdDirectory}`,
+        undo: async () => rmSync(createdDirectory, { recursive: true, force: true }),
+      },
+    ]
+  }
+
+  // The package is created next to the existing files, e.g. in the current directory. Only what it adds is removed
+  const existingEntries = new Set(readdirSync(directory))
+  const addedFiles: SideEffect = {
+    description: `Added the files of the package to ${directory}`,
+    confirmation: `Do you really want to delete the files that were added to ${directory}?`,
+    undo: async () => {
+      for (const entry of readdirSync(directory).filter(entry => !existingEntries.has(entry))) {
+        rmSync(path.join(directory, entry), { recursive: true, force: true })
+      }
+    },
+  }
+
+  const getOrigin = async () =>
+    (await shell(`cd ${directory} ; git remote get-url origin`).catch(() => undefined))?.stdout.trim()
+  if (settings.monorepo || !settings.repo || (await getOrigin())) {
+    return [addedFiles]
+  }
+  const repo = settings.repo
+  return [
+    addedFiles,
+    {
+      description: `Added the git remote origin ${repo} in ${directory}`,
+      undo: async () => {
+        if ((await getOrigin()) === repo) {
+          await shell(`cd ${directory} ; git remote remove origin`)
+        }
+      },
+    },
+  ]
+}
+
+/** Offer to undo the changes of a failed run */
+const offerRollback = async (sideEffects: SideEffect[], interactive: boolean) => {
+  if (sideEffects.length === 0) {
+    return
+  }
+
+  io.log("These changes were already made:")
+  sideEffects.forEach(({ description }) => io.log(`  - ${description}`))
+  if (!interactive) {
+    return
+  }
+
+  const result = await io.prompt(
+    { type: "confirm", name: "undo", message: "Do you want to undo them?", initial: true },
+    { onCancel }
+  )
+  if (!result.undo) {
+    return
+  }
+
+  const { undone, kept, failed } = await undoSideEffects(sideEffects, async question => {
+    const confirmation = await io.prompt(
+      { type: "confirm", name: "confirmed", message: question, initial: false },
+      { onCancel }
+    )
+    return !!confirmation.confirmed
+  })
+  undone.forEach(({ description }) => io.log(chalk.green(`Undone: ${description}`)))
+  kept.forEach(({ description }) => io.log(`Kept: ${description}`))
+  failed.forEach(({ sideEffect, error }) =>
+    io.log(chalk.red(`Failed to undo: ${sideEffect.description}. ${error.message}`))
+  )
+}
+
+/** createTypescriptThing does not know bun, so bun packages are set up with npm and switched to bun afterwards */
+const getLibraryPackageManager = (settings: PackageSettings) =>
+  settings.packageManager === "bun" ? "npm" : settings.packageManager
+
+/** Get the options for createTypescriptThing, except for the logger */
+const getPackageOptions = (settings: PackageSettings): Omit<Options, "logger"> => {
+  if (!settings.name) {
+    throw new Error("Name is not set")
+  }
+  if (settings.type === "monorepo") {
+    throw new Error("A monorepo is not created by createTypescriptThing, only its packages are")
+  }
+
+  return {
+    path: settings.path || ".",
+    name: settings.name,
+    description: settings.description,
+    type: settings.type || "library",
+    authorName: settings.authorName,
+    authorEmail: settings.authorEmail,
+    packageManager: getLibraryPackageManager(settings),
+    disableGitCommits: false,
+    disableGitRepo: settings.monorepo,
+    gitOrigin: settings.repo,
+    gitBranch: settings.branch,
+  }
+}
+
+/** Get the options for createTypescriptThing for a package of a new monorepo. It uses the git repository of the monorepo */
+const getMemberOptions = (settings: PackageSettings, member: MonorepoMember): Omit<Options, "logger"> => ({
+  path: path.join(settings.path || ".", member.path),
+  name: member.name,
+  description: member.description,
+  type: member.type,
+  authorName: settings.authorName,
+  authorEmail: settings.authorEmail,
+  packageManager: getLibraryPackageManager(settings),
+  disableGitCommits: true,
+  disableGitRepo: true,
+})
+
+/** Get the pin for the package.json of a standalone package. A monorepo root gets it with its other files */
+const getStandalonePackageManagerPin = (settings: PackageSettings) =>
+  settings.type === "monorepo" || getWorkspace(settings) ? undefined : getPackageManagerPin(settings)
+
+/** Register the package in the workspace. Returns the steps that have to be done by hand */
+const addToWorkspace = async (settings: PackageSettings, workspace: MonorepoWorkspace, sideEffects: SideEffect[]) => {
+  const { changes, manualSteps } = getWorkspaceChanges(
+    workspace,
+    path.resolve(settings.invokeDirectory, settings.path || ".")
+  )
+  for (const change of changes) {
+    sideEffects.push(applyWorkspaceChange(change))
+  }
+  return manualSteps
+}
+
+/** Collect everything that would happen without changing anything */
+const getExecutionPlan = async (settings: PackageSettings): Promise<ExecutionPlan> => {
+  const monorepo = settings.type === "monorepo"
+  const packageOptions = monorepo ? getMonorepoPackageJson(settings) : getPackageOptions(settings)
+  const directory = path.resolve(settings.invokeDirectory, settings.path || ".")
+  const plannedRepository = getPlannedRepository(settings)
+  const repositoryOptions = getRepositoryOptions(settings)
+  const workspace = getWorkspace(settings)
+  const workspaceChanges = workspace ? getWorkspaceChanges(workspace, directory) : undefined
+  const githubRequests =
+    plannedRepository?.provider === "github" && settings.githubToken
+      ? await providers.github.getCreateRepoRequests(
+          settings.githubToken,
+          plannedRepository.owner,
+          plannedRepository.name,
+          settings.description || "",
+          plannedRepository.host,
+          repositoryOptions
+        )
+      : undefined
+
+  return {
+    directory,
+    directoryExists: existsSync(directory),
+    packageOptions,
+    initializeGitRepo: !settings.monorepo,
+    packageManagerPin: getStandalonePackageManagerPin(settings),
+    switchToBun: settings.packageManager === "bun",
+    monorepo: monorepo
+      ? {
+          files: getMonorepoFiles(settings).map(({ file }) => file),
+          members: (settings.members ?? []).map(member => ({
+            name: member.name,
+            packageOptions: getMemberOptions(settings, member),
+          })),
+        }
+      : undefined,
+    workspaceChanges: workspaceChanges && [
+      ...workspaceChanges.changes.map(({ description }) => description),
+      ...workspaceChanges.manualSteps.map(step => `${step} (by hand, the file contains comments)`),
+    ],
+    remote: settings.repo,
+    branch: settings.branch ?? (plannedRepository ? "the default branch of the new repository" : undefined),
+    repository: plannedRepository
+      ? {
+          hostedRepository: plannedRepository,
+          options: repositoryOptions,
+          requests: githubRequests
+            ? [githubRequests.createRequest, ...(githubRequests.topicsRequest ? [githubRequests.topicsRequest] : [])]
+            : [],
+        }
+      : undefined,
+  }
+}
+
+const reviewSettings = async (settings: PackageSettings): Promise<PackageSettings> => {
+  snapshotSession(settings)
+  const repoExists = settings.repo ? validateGitRepo(settings, settings.repo) : (async () => true)()
+  const shortTimeoutRepoExists = (repoExists && (await awaitWithTimeout(repoExists, 100, true))) || false
+  const plannedRepository = getPlannedRepository(settings)
+
+  if (settings.type === "monorepo") {
+    io.log(
+      `I will create the monorepo ${chalk.blue(settings.name)} into ${chalk.blue(settings.path)} with the packages ${
+        settings.members?.map(member => `${chalk.blue(member.name)} (${member.type})`).join(", ") || "none"
+      }`
+    )
+  } else {
+    io.log(
+      `I will create the ${chalk.blue(settings.type)} package ${chalk.blue(settings.name)} into ${chalk.blue(
+        settings.path
+      )}`
+    )
+  }
+  // if (settings.authorName || settings.authorEmail) {
+  //   io.log(
+  //     `I will set the author as ${chalk.blue(settings.authorName)}${
+  //       settings.authorEmail ? ` <${chalk.blue(settings.authorEmail)}> ` : " "
+  //     }. ${settings.description ? "You haven't defined a description yet, if you want you can do this now." : ""}`
+  //   )
+  // }
+
+  if (settings.monorepo) {
+    io.log(
+      `I won't create a git repository, because the package is inside a ${chalk.blue("monorepo")} ${
+        settings.repo ? `(${chalk.blue(settings.repo)})` : ""
+      }`
+    )
+    const workspace = getWorkspace(settings)
+    if (workspace) {
+      io.log(
+        `I will add the package to the ${chalk.blue(describeWorkspace(workspace))} at ${chalk.blue(workspace.root)}${
+          workspace.packageManager ? " and use its package manager" : ""
+        }.`
+      )
+    }
+  } else {
+    if (plannedRepository) {
+      io.log(
+        `I will create the repository ${chalk.blue(settings.repo)} on ${chalk.blue(
+          plannedRepository.host
+        )} (${describeRepositoryOptions(getRepositoryOptions(settings))}) and use it as the remote repository.`
+      )
+    } else if (settings.repo) {
+      io.log(
+        `I will use the git repository at ${chalk.blue(settings.repo)} as the remote repository.
+        ${!shortTimeoutRepoExists ? chalk.red("The repository does not exist, please create it before continuing.") : ""}`
+      )
+    } else {
+      io.log(
+        `I will create a local git repository for the package. If you want to start with a github repo, configure the git url now.`
+      )
+    }
+  }
+
+  const missingKeys = getMissingKeys(settings, shortTimeoutRepoExists || !!plannedRepository)
+
+  const result = await io.prompt(
+    {
+      type: "select",
+      name: "selection",
+      message: "Are you ready to create?",
+      warn: `You need to set ${missingKeys.join(", ")}`,
+      choices: [
+        {
+          title: "Yes, let's go!",
+          description: "Create the package with the current settings",
+          value: "create",
+          disabled: missingKeys.length > 0,
+        },
+        {
+          title: settings.description ? `Description  : ${settings.description}` : `Add a package description`,
+          description: "Change the description",
+          value: "description",
+        },
+        { title: `Type         : ${settings.type}`, description: "Change what what your packages is", value: "type" },
+        {
+          title: settings.name ? `Name         : ${settings.name}` : `Set the package name`,
+          description: "Change the package name",
+          value: "name",
+        },
+        {
+          title: settings.path ? `Location     : ${settings.path}` : `Select the install location`,
+          description: "Change the install location",
+          value: "path",
+        },
+        {
+          title: settings.authorName ? `Author       : ${settings.authorName}` : `Add an author`,
+          description: "Change the name of the author",
+          value: "authorName",
+        },
+        {
+          title: settings.authorEmail ? `Author email : ${settings.authorEmail}` : `Add your email as author`,
+          description: "Change the email of the author",
+          value: "authorEmail",
+        },
+        {
+          title: `GitHub host  : ${getGithubHost(settings)}`,
+          description: "Change the github instance, e.g. to a github enterprise server",
+          value: "githubHost",
+        },
+        ...(settings.githubTokenSource === "credentialStore"
+          ? [
+              {
+                title: `GitHub token : stored for ${settings.githubUsername}`,
+                description: "Replace or remove the stored github token",
+                value: "storedToken",
+              },
+            ]
+          : []),
+        ...(settings.offline
+          ? []
+          : [
+              {
+                title: settings.giteaUsername
+                  ? `Gitea        : ${settings.giteaUsername}@${settings.giteaHost}`
+                  : `Sign into Gitea or Forgejo`,
+                description: "Use a self-hosted Gitea or Forgejo instance to find or create the repository",
+                value: "gitea",
+              },
+            ]),
+        {
+          title: settings.repo ? `Git url      : ${settings.repo}` : `Select a git repo`,
+          description: "Change the url of the origin git repository",
+          value: "repo",
+        },
+        ...(plannedRepository
+          ? [
+              {
+                title: `New repo     : ${describeRepositoryOptions(getRepositoryOptions(settings))}`,
+                description: "Change the visibility, license and features of the new repository",
+                value: "repositoryOptions",
+              },
+            ]
+          : []),
+        ...(settings.type === "monorepo"
+          ? [
+              {
+                title: settings.members?.length
+                  ? `Packages     : ${settings.members.map(({ name }) => name).join(", ")}`
+                  : `Add a package to the monorepo`,
+                description: "Add another package to the monorepo",
+                value: "addMember",
+              },
+            ]
+          : [
+              {
+                title: settings.monorepo ? `In monorepo  : yes` : `In monorepo  : no`,
+                description: "Set to true if your project is not in the root of a git repo",
+                value: "monorepo",
+              },
+            ]),
+        {
+          title: settings.packageManager ? `Lockfiles    : ${settings.packageManager}` : `Select your package manager`,
+          description:
+            settings.packageManager && settings.packageManagerReason
+              ? `Selected, because ${settings.packageManagerReason}`
+              : "Select which package manager you are going to use",
+          value: "packageManager",
+        },
+        ...(canPinPackageManager(settings) && !getWorkspace(settings)
+          ? [
+              {
+                title: `Corepack     : ${
+                  getPackageManagerPin(settings) ? `pin ${getPackageManagerPin(settings)}` : "do not pin the version"
+                }`,
+                description: "Write the package manager version into the packageManager field of the package.json",
+                value: "packageManagerPin",
+              },
+            ]
+          : []),
+        ...(settings.dryRun
+          ? []
+          : [
+              {
+                title: "Save as my defaults",
+                description: "Use the current type, package manager and author for future packages",
+                value: "saveDefaults",
+              },
+            ]),
+      ],
+      initial: 0,
+    },
+    { onCancel }
+  )
+
+  switch (result.selection) {
+    case "create": {
+      if (settings.repo && !plannedRepository && !(await repoExists)) {
+        io.log(chalk.red("The repository does not exist, please create it before continuing."))
+        return reviewSettings(settings)
+      }
+      return settings
+    }
+    case "type":
+      return reviewSettings(await selectType(settings))
+    case "name":
+      return reviewSettings(await selectName(settings))
+    case "description":
+      return reviewSettings(await selectDescription(settings))
     case "path":
       return reviewSettings(await selectPath(settings))
     case "authorName":
       return reviewSettings(await selectAuthorName(settings))
     case "authorEmail":
       return reviewSettings(await selectAuthorEmail(settings))
+    case "githubHost":
+      return reviewSettings(await selectGithubHost(settings))
+    case "storedToken":
+      return reviewSettings(await manageStoredGithubToken(settings))
+    case "gitea":
+      return reviewSettings(await signIntoGitea(settings))
     case "repo":
       return reviewSettings(await selectOrigin(settings))
+    case "repositoryOptions":
+      return reviewSettings(await selectRepositoryOptions(settings))
     case "monorepo":
       return reviewSettings(await selectMonorepo(settings))
+    case "addMember":
+      return reviewSettings(await addMonorepoMember(settings))
     case "packageManager":
       return reviewSettings(await selectPackageManager(settings))
+    case "packageManagerPin":
+      return reviewSettings(await selectPackageManagerPin(settings))
+    case "saveDefaults":
+      setUserConfig({
+        ...getUserConfig(),
+        type: settings.type,
+        packageManager: settings.packageManager,
+        gitProtocol: settings.gitProtocol,
+        authorName: settings.authorName,
+        authorEmail: settings.authorEmail,
+      })
+      io.log(`Saved your defaults to ${chalk.blue(userConfigPath)}`)
+      return reviewSettings(settings)
     default:
       throw new Error("Unexpected selection")
   }
 }
 
-;(async () => {
-  const authorSettings = addAuthorInfo({
-    type: "library",
-    invokeDirectory: path.normalize(process.cwd()),
-    pathInfos: {},
-  } as PackageSettings).then(settings => guessGitAccount(settings))
+const askToResume = async (session: SavedSession) => {
+  const result = await io.prompt(
+    {
+      type: "select",
+      name: "resume",
+      message: "You did not finish your last session. Do you want to continue it?",
+      choices: [
+        {
+          title: `Resume previous session for ${session.settings.name ?? "an unnamed package"}`,
+          description: `Last changed ${new Date(session.savedAt).toLocaleString()}`,
+          value: true,
+        },
+        { title: "Start a new session", value: false },
+      ],
+      initial: 0,
+    },
+    { onCancel }
+  )
 
-  const packageManagerSettings = determinePackageManager().then(packageManager => ({
-    packageManager,
-  }))
+  return !!result.resume
+}
 
-  //TODO: Determine author name
-  const s1 = selectType({
-    type: "library",
-    invokeDirectory: path.normalize(process.cwd()),
-    pathInfos: {},
-  })
+/** Restore the settings of a saved session. Tokens are not saved, so they are resolved again */
+const restoreSession = async (settings: PackageSettings): Promise<PackageSettings> => {
+  const restoredSettings = await addPathInfo(await addAuthorInfo(settings))
+  const plannedRepository = getPlannedRepository(restoredSettings)
+  if (!plannedRepository || (plannedRepository.provider === "github" && restoredSettings.githubToken)) {
+    return restoredSettings
+  }
 
-  const initialSettings = await Promise.all([authorSettings, s1, packageManagerSettings])
+  io.log(
+    chalk.yellow(
+      `I can not create ${plannedRepository.url} anymore, because you are not signed into ${plannedRepository.host}.`
+    )
+  )
+  return { ...restoredSettings, plannedRepository: undefined }
+}
+
+/** A step of the initial questions */
+type WizardStep = {
+  /** If the step asks the user something. Only those steps can be returned to */
+  interactive: boolean
+  skip?: (settings: PackageSettings) => boolean
+  run: (settings: PackageSettings) => Promise<PackageSettings>
+}
 
-  const s11 = { ...initialSettings[0], type: initialSettings[1].type, ...initialSettings[2] }
+/**
+ * Run the steps in order and save the settings after each of them. Escape goes back to the previous interactive step.
+ * The settings are restored to how they were before that step, so everything inferred from later answers is inferred again.
+ */
+const runSteps = async (settings: PackageSettings, steps: WizardStep[]) => {
+  const history: Array<{ index: number; settings: PackageSettings }> = []
+  let currentSettings = settings
+  let index = 0
+
+  const run = getRun()
+  run.backNavigation = true
+  try {
+    while (index < steps.length) {
+      const step = steps[index]
+      if (step.skip?.(currentSettings)) {
+        index++
+        continue
+      }
+      try {
+        const newSettings = await step.run(currentSettings)
+        if (step.interactive) {
+          history.push({ index, settings: currentSettings })
+        }
+        currentSettings = snapshotSession(newSettings)
+        index++
+      } catch (error) {
+        if (error !== goBack) {
+          throw error
+        }
+        // The first question is asked again, as there is nothing to go back to
+        const previous = history.pop()
+        if (previous) {
+          index = previous.index
+          currentSettings = previous.settings
+        }
+      }
+    }
+  } finally {
+    run.backNavigation = false
+  }
 
-  const s2 = await selectName(s11)
+  return currentSettings
+}
 
-  const s200 = await selectDescription(s2)
+/** Ask everything that is needed for the review */
+const askInitialQuestions = async (
+  baseSettings: PackageSettings,
+  explicitSettings: Partial<PackageSettings>,
+  options: WizardOptions
+): Promise<PackageSettings> => {
+  const yes = !!options.yes
+  const createRepo = !!options.createRepo
+
+  // Inferring the author and package manager takes a while, so it runs while the first question is asked
+  const inferredSettings = Promise.all([
+    addAuthorInfo({ type: "library", ...baseSettings }).then(settings => guessGitAccount(settings)),
+    determinePackageManager(baseSettings.invokeDirectory, shell).then(
+      ({ packageManager, reason, pinnedVersion, versions }) => ({
+        packageManager: baseSettings.packageManager ?? packageManager,
+        packageManagerReason: baseSettings.packageManager
+          ? explicitSettings.packageManager
+            ? explicitPackageManagerReason
+            : `it is your default in ${userConfigPath}`
+          : reason,
+        packageManagerVersions: {
+          ...versions,
+          ...(packageManager && pinnedVersion ? { [packageManager]: pinnedVersion } : {}),
+        },
+      })
+    ),
+  ])
+  let announcedSignIn = false
 
-  const pathInfo = getPathInfo(s2)
+  if (!yes) {
+    io.log(chalk.gray("Press esc to go back to the previous question"))
+  }
 
-  if (!pathInfo) {
-    throw new Error("Handle this somehow")
+  return await runSteps({ type: "library", ...baseSettings }, [
+    {
+      interactive: true,
+      skip: () => !!explicitSettings.type || yes,
+      run: selectType,
+    },
+    {
+      interactive: false,
+      run: async settings => {
+        const [authorSettings, packageManagerSettings] = await inferredSettings
+        const newSettings = { ...authorSettings, type: settings.type, ...packageManagerSettings }
+        if (newSettings.githubTokenSource && !announcedSignIn) {
+          announcedSignIn = true
+          io.log(
+            `Signed into ${chalk.blue(getGithubHost(newSettings))} as ${chalk.blue(
+              newSettings.githubUsername
+            )} with the token from ${describeGithubTokenSource(
+              newSettings.githubTokenSource,
+              getGithubHost(newSettings)
+            )}`
+          )
+        }
+        return newSettings
+      },
+    },
+    {
+      interactive: true,
+      skip: settings => !!settings.name || (yes && !!recommendNewPackageName(settings)),
+      run: selectName,
+    },
+    {
+      interactive: false,
+      run: async settings => {
+        if (
+          explicitSettings.name &&
+          (await checkNameAvailability(explicitSettings.name, settings.invokeDirectory)) === "taken"
+        ) {
+          io.log(
+            chalk.yellow(
+              `${explicitSettings.name} is already taken on ${
+                getRegistry(explicitSettings.name, settings.invokeDirectory).url
+              }, you will not be able to publish it`
+            )
+          )
+        }
+        const name = settings.name || (await recommendAvailablePackageName(settings))?.name
+        if (name) {
+          return applyName(settings, name)
+        }
+        // Every recommended name is taken. Without asking, the package can not be created, as it has no name
+        return yes ? settings : selectName(settings)
+      },
+    },
+    {
+      interactive: true,
+      skip: settings => settings.description !== undefined || yes,
+      run: settings => selectDescription(settings),
+    },
+    {
+      interactive: false,
+      run: async settings => {
+        if (!getPathInfo(settings) && !yes) {
+          throw new Error("Handle this somehow")
+        }
+        return settings
+      },
+    },
+    {
+      interactive: true,
+      skip: settings => (settings.githubCliHosts?.length ?? 0) <= 1 || !!baseSettings.githubHost || yes,
+      run: selectGithubHost,
+    },
+    {
+      interactive: true,
+      skip: settings => !settings.staleGithubToken || yes,
+      run: handleStaleGithubToken,
+    },
+    {
+      interactive: true,
+      skip: settings =>
+        !!(settings.githubToken || settings.gitlabToken || settings.giteaToken || settings.repo || settings.offline) ||
+        yes,
+      run: selectGitAccount,
+    },
+    { interactive: false, run: addRepoUrl },
+    {
+      interactive: true,
+      skip: settings => !!settings.repo || yes,
+      run: selectOrigin,
+    },
+    { interactive: false, skip: () => !createRepo, run: planRepository },
+    {
+      interactive: true,
+      skip: settings => settings.type !== "monorepo" || !!settings.members?.length || yes,
+      run: askMonorepoMembers,
+    },
+    {
+      interactive: false,
+      skip: settings => settings.type !== "monorepo" || !!settings.members?.length || !yes,
+      run: addDefaultMonorepoMember,
+    },
+  ])
+}
+
+export type WizardOptions = {
+  /** How the wizard talks to the user. Defaults to the terminal */
+  io?: WizardIo
+  /** The clients for the git hosts. Defaults to the real git hosts */
+  providers?: GitHostProviders
+  /** Runs the git commands. Defaults to the system shell */
+  shell?: Shell
+  /** Values that are used instead of the inferred ones, but can still be changed by the user, e.g. the user config */
+  defaults?: Partial<PackageSettings>
+  /** Do not ask any questions, use the inferred defaults for everything that was not specified */
+  yes?: boolean
+  /** Create the repository on the git host, if it does not exist yet */
+  createRepo?: boolean
+  /** Continue the saved session at the review */
+  resume?: boolean
+  /** Save the answers after every step, so the session can be resumed later. Defaults to true */
+  saveSession?: boolean
+  /**
+   * Offer to undo the changes and exit the process with code 130 on ctrl+c, while the package is created.
+   * Meant for command line tools, as it exits the process
+   */
+  undoOnInterrupt?: boolean
+}
+
+export type WizardResult =
+  | { status: "created"; settings: PackageSettings }
+  | { status: "dryRun"; settings: PackageSettings; plan: ExecutionPlan }
+  | { status: "cancelled" }
+  /** The reason was already reported to the user */
+  | { status: "failed"; message: string }
+
+const reportFailure = (message: string): WizardResult => {
+  io.error(chalk.red(message))
+  return { status: "failed", message }
+}
+
+/** Show the messages of createTypescriptThing with the spinner */
+const getLogger = (spinner: ReturnType<typeof ora>): Options["logger"] => ({
+  logMessage: (message, { type }) => {
+    const oldMessage = spinner.text
+    const spinning = spinner.isSpinning
+    switch (type) {
+      case undefined:
+      case "info":
+        spinner.info(message)
+        break
+      case "error":
+        spinner.fail(message)
+        break
+      case "success":
+        spinner.succeed(message)
+        break
+      case "warning":
+        spinner.warn(message)
+        break
+    }
+
+    if (spinning) {
+      spinner.start(oldMessage)
+    }
+  },
+  logState: (id, { text, state }) => {
+    switch (state) {
+      case undefined:
+        if (text !== undefined) {
+          spinner.text = text
+        }
+        break
+      case "active":
+        spinner.start(text)
+        break
+      case "completed":
+        spinner.succeed(text)
+        break
+      case "failed":
+        spinner.fail(text)
+        break
+      case "pending":
+        spinner.info(text)
+        break
+    }
+  },
+})
+
+/** Switch a package that was created by createTypescriptThing to bun and install its dependencies with bun */
+const useBun = async (settings: PackageSettings) => {
+  const directory = path.resolve(settings.invokeDirectory, settings.path || ".")
+  const spinner = ora({ text: "Switching to bun", stream: io.output }).start()
+  try {
+    switchToBun(directory)
+  } catch (error) {
+    spinner.fail(`Failed to switch to bun: ${(error as Error).message}`)
+    return
+  }
+  if (
+    await shell(`cd ${directory} && bun install`).then(
+      () => true,
+      () => false
+    )
+  ) {
+    spinner.succeed("Switched to bun")
+  } else {
+    spinner.warn(`Switched to bun, but failed to install the dependencies, run bun install in ${directory}`)
+  }
+}
+
+/**
+ * Create the root of a new monorepo with a single git repository and then its packages.
+ * Returns the error, if something failed
+ */
+const createMonorepo = async (
+  settings: PackageSettings,
+  sideEffects: SideEffect[],
+  spinner: ReturnType<typeof ora>
+) => {
+  const directory = path.resolve(settings.invokeDirectory, settings.path || ".")
+  const packageManager = settings.packageManager ?? "npm"
+
+  try {
+    spinner.text = `Creating the monorepo ${settings.name}`
+    sideEffects.push(...writeMonorepoFiles(directory, getMonorepoFiles(settings)))
+    if (!existsSync(path.join(directory, ".git"))) {
+      await shell(`cd ${directory} && git init${settings.branch ? ` -b ${settings.branch}` : ""}`)
+      sideEffects.push({
+        description: `Initialized a git repository in ${directory}`,
+        undo: async () => rmSync(path.join(directory, ".git"), { recursive: true, force: true }),
+      })
+    }
+    if (settings.repo) {
+      await shell(`cd ${directory} && git remote add origin ${settings.repo}`)
+    }
+
+    for (const member of settings.members ?? []) {
+      spinner.start(`Creating ${member.name}`)
+      await createTypescriptThing({ ...getMemberOptions(settings, member), logger: getLogger(spinner) })
+      if (settings.packageManager === "bun") {
+        switchToBun(path.join(directory, member.path))
+      }
+      const workspace = findWorkspace(directory)
+      for (const change of workspace ? getWorkspaceChanges(workspace, path.join(directory, member.path)).changes : []) {
+        sideEffects.push(applyWorkspaceChange(change))
+      }
+      sideEffects.push(...useSharedConfigs(directory, path.join(directory, member.path)))
+      spinner.succeed(`Created ${member.name}`)
+    }
+  } catch (error) {
+    return error as Error
+  }
+
+  spinner.start(`Installing the dependencies with ${packageManager}`)
+  if (
+    !(await shell(`cd ${directory} && ${packageManager} install`).then(
+      () => true,
+      () => false
+    ))
+  ) {
+    spinner.warn(`Failed to install the dependencies, run ${packageManager} install in ${directory}`)
+  }
+  spinner.start("Committing the monorepo")
+  if (
+    !(await shell(`cd ${directory} && git add -A && git commit -q -m "Create the monorepo"`).then(
+      () => true,
+      () => false
+    ))
+  ) {
+    spinner.warn(`Failed to commit the monorepo, please commit it yourself`)
+  }
+  return undefined
+}
+
+/**
+ * Create the repository and the package
+ * @param undoOnInterrupt Offer to undo the changes and exit the process, when it is interrupted with ctrl+c
+ */
+const createPackage = async (
+  settings: PackageSettings,
+  yes: boolean,
+  undoOnInterrupt: boolean
+): Promise<WizardResult> => {
+  // Everything that gets changed from here on is tracked, so it can be undone if something fails
+  const sideEffects: SideEffect[] = []
+  let rollback: Promise<void> | undefined
+  const rollBack = () => {
+    rollback = rollback ?? offerRollback(sideEffects, !yes)
+    return rollback
+  }
+  let activeSpinner: ReturnType<typeof ora> | undefined
+  // Bound to the run, as the signal arrives outside of it. The rollback has to use the io and shell of the run
+  const onInterrupt = AsyncResource.bind(() => {
+    activeSpinner?.stop()
+    io.log(chalk.yellow("Interrupted"))
+    void rollBack()
+      .catch(() => undefined)
+      .then(() => exit(130))
+  })
+  if (undoOnInterrupt) {
+    process.on("SIGINT", onInterrupt)
+  }
+
+  try {
+    const plannedRepository = getPlannedRepository(settings)
+    const repositorySpinner = plannedRepository
+      ? ora({ text: `Creating the repository ${plannedRepository.url}`, stream: io.output }).start()
+      : undefined
+    activeSpinner = repositorySpinner
+    const createdSettings = await createPlannedRepository(settings, sideEffects).catch((error: Error) => error)
+    if (createdSettings instanceof Error) {
+      repositorySpinner?.fail()
+      const failure = reportFailure(`Failed to create the repository: ${createdSettings.message}`)
+      await rollBack()
+      return failure
+    }
+    repositorySpinner?.succeed(`Created the repository ${plannedRepository?.url}`)
+    sideEffects.push(...(await getPackageSideEffects(createdSettings)))
+
+    const packageSpinner = ora({ text: "Creating package", stream: io.output }).start()
+    activeSpinner = packageSpinner
+
+    const packageError =
+      createdSettings.type === "monorepo"
+        ? await createMonorepo(createdSettings, sideEffects, packageSpinner)
+        : await createTypescriptThing({
+            ...getPackageOptions(createdSettings),
+            logger: getLogger(packageSpinner),
+          }).then(
+            () => undefined,
+            (error: Error) => error
+          )
+    if (packageError) {
+      const message = `Failed to create ${createdSettings.name}: ${packageError.message}`
+      if (packageSpinner.isSpinning) {
+        packageSpinner.fail(message)
+      } else {
+        io.error(chalk.red(message))
+      }
+      await rollBack()
+      return { status: "failed", message }
+    }
+    if (packageSpinner.isSpinning) {
+      packageSpinner.succeed(`Created ${createdSettings.name}`)
+    }
+
+    if (createdSettings.type !== "monorepo" && createdSettings.packageManager === "bun") {
+      await useBun(createdSettings)
+    }
+
+    const packageManagerPin = getStandalonePackageManagerPin(createdSettings)
+    if (packageManagerPin) {
+      try {
+        writePackageManagerField(
+          path.resolve(createdSettings.invokeDirectory, createdSettings.path || "."),
+          packageManagerPin
+        )
+      } catch (error) {
+        io.error(chalk.yellow(`Failed to pin ${packageManagerPin}: ${(error as Error).message}`))
+      }
+    }
+
+    const workspace = getWorkspace(createdSettings)
+    if (workspace) {
+      const manualSteps = await addToWorkspace(createdSettings, workspace, sideEffects).catch((error: Error) => error)
+      if (manualSteps instanceof Error) {
+        const message = `Failed to add ${createdSettings.name} to the workspace: ${manualSteps.message}`
+        io.error(chalk.red(message))
+        await rollBack()
+        return { status: "failed", message }
+      }
+      io.log(`Added ${chalk.blue(createdSettings.name)} to the ${describeWorkspace(workspace)} at ${workspace.root}`)
+      for (const step of manualSteps) {
+        io.log(chalk.yellow(`${step}, I did not change it because it contains comments`))
+      }
+    }
+    if (getRun().sessionEnabled) {
+      removeSavedSession()
+    }
+    return { status: "created", settings: createdSettings }
+  } finally {
+    process.off("SIGINT", onInterrupt)
   }
+}
 
-  const s20 = s200.githubToken ? s200 : await selectGithubAccount(s200)
+const runWizardSteps = async (
+  baseSettings: PackageSettings,
+  explicitSettings: Partial<PackageSettings>,
+  options: WizardOptions
+): Promise<WizardResult> => {
+  const yes = !!options.yes
+  if (baseSettings.offline) {
+    io.log(chalk.yellow("Offline mode, I will not contact any git host."))
+  }
 
-  const s21 = await addRepoUrl(s20)
+  const savedSession = getRun().sessionEnabled ? getSavedSession() : undefined
+  if (options.resume && !savedSession) {
+    return reportFailure(`There is no session to resume in ${sessionPath}`)
+  }
+  const resume = options.resume || (!!savedSession && !yes && (await askToResume(savedSession)))
 
-  const s22 = s21.repo ? s21 : await selectOrigin(s21)
+  const s22 =
+    resume && savedSession
+      ? await restoreSession({ ...baseSettings, ...savedSession.settings, ...explicitSettings })
+      : await askInitialQuestions(baseSettings, explicitSettings, options)
 
   //TODO: Determine and create path here
 
-  const s3 = await reviewSettings(s22)
+  const s30 = yes ? s22 : await reviewSettings(s22)
 
-  const nameChecked = s3.name
-  if (!nameChecked) {
-    throw new Error("Name is not set")
+  if (yes) {
+    const missingKeys = getMissingKeys(
+      s30,
+      s30.repo ? !!getPlannedRepository(s30) || (await validateGitRepo(s30, s30.repo)) : true
+    )
+    if (missingKeys.length > 0) {
+      return reportFailure(
+        `Can not create the package without asking questions, please specify: ${missingKeys.join(", ")}`
+      )
+    }
   }
 
-  const spinner2 = ora("Creating package").start()
+  const s31 = await checkRepositoryPermissions(s30, !yes).catch((error: Error) => error)
+  if (s31 instanceof Error) {
+    if (s31 === cancelled) {
+      throw s31
+    }
+    return reportFailure(s31.message)
+  }
 
-  const ctsOptions: Options = {
-    path: s3.path || ".",
-    name: nameChecked,
-    description: s3.description,
-    type: s3.type || "library",
-    authorName: s3.authorName,
-    authorEmail: s3.authorEmail,
-    packageManager: s3.packageManager,
-    disableGitCommits: false,
-    disableGitRepo: s3.monorepo,
-    gitOrigin: s3.repo,
-    gitBranch: s3.branch,
-
-    logger: {
-      logMessage: (message, { type }) => {
-        const oldMessage = spinner2.text
-        const spinning = spinner2.isSpinning
-        switch (type) {
-          case undefined:
-          case "info":
-            spinner2.info(message)
-            break
-          case "error":
-            spinner2.fail(message)
-            break
-          case "success":
-            spinner2.succeed(message)
-            break
-          case "warning":
-            spinner2.warn(message)
-            break
-        }
+  if (s31.dryRun) {
+    const plan = await getExecutionPlan(s31)
+    io.log(chalk.bold.yellow("This is a dry run, nothing was changed. This is what would happen:"))
+    io.log(formatExecutionPlan(plan))
+    return { status: "dryRun", settings: s31, plan }
+  }
 
-        if (spinning) {
-          spinner2.start(oldMessage)
-        }
-      },
-      logState: (id, { text, state }) => {
-        switch (state) {
-          case undefined:
-            if (text !== undefined) {
-              spinner2.text = text
-            }
-            break
-          case "active":
-            spinner2.start(text)
-            break
-          case "completed":
-            spinner2.succeed(text)
-            break
-          case "failed":
-            spinner2.fail(text)
-            break
-          case "pending":
-            spinner2.info(text)
-            break
-        }
-      },
-    },
+  return await createPackage(s31, yes, !!options.undoOnInterrupt)
+}
+
+/**
+ * Walk the user through creating a package. The io, the shell and the git hosts can be replaced to embed the wizard or to script it.
+ * Wizards can run at the same time, each of them uses its own io, shell and git hosts.
+ * @param initialSettings Settings that were chosen explicitly. The questions for them are skipped
+ */
+export const runWizard = async (
+  initialSettings: Partial<PackageSettings> = {},
+  options: WizardOptions = {}
+): Promise<WizardResult> => {
+  const baseSettings: PackageSettings = {
+    invokeDirectory: path.normalize(process.cwd()),
+    pathInfos: {},
+    ...options.defaults,
+    ...initialSettings,
   }
 
-  await createTypescriptThing(ctsOptions)
-  if (spinner2.isSpinning) {
-    spinner2.succeed(`Created ${s3.name}`)
-  }
-  // const projectPromise = createTypescriptThing(ctsOptions)
-
-  // const texts = [
-  //   `Creating ${blue(s3.name)}`,
-  //   `${blue(s3.name)} should be ready in a few seconds`,
-  //   `This should take one minute or less`,
-  //   `Still creating ${blue(s3.name)}`,
-  //   `${blue(s3.name)} will be ready at any minute`,
-  //   `It will only take a few more seconds`,
-  //   "Nearly done",
-  //   "Ok, maybe it is going to take a bit logner then I anticipated",
-  //   `${blue(s3.name)} should be ready soon`,
-  //   "Maybe your device is just really slow?",
-  //   "Maybe this script is really inefficient?",
-  //   "You could star this script while you are waiting https://github.com/Zebreus/create-typescript-thing",
-  //   "You could star this script while you are waiting https://github.com/Zebreus/create-typescript-thing",
-  //   "It should be done by now",
-  //   "Hang in there",
-  //   `Waiting for ${blue(s3.name)}`,
-  // ]
-  // const spinner = ora(texts[0]).start()
-
-  // let nextText = 0
-
-  // const textChange = setInterval(() => {
-  //   spinner.text = texts[nextText]
-  //   nextText = (nextText + 1) % texts.length
-  // }, 20000)
-
-  // try {
-  //   await projectPromise
-  //   clearInterval(textChange)
-  //   spinner.succeed(`Created ${s3.name}`
-  // } catch (error) {
-  //   clearInterval(textChange)
-  //   spinner.fail("Failed to create package")
-  //   console.error(error)
-  // }
-})()
+  const runIo = options.io ?? terminalIo
+  const run: WizardRun = {
+    providers: options.providers ?? defaultGitHostProviders,
+    shell: options.shell ?? sh,
+    sessionEnabled: options.saveSession ?? true,
+    backNavigation: false,
+  }
+  const onKeypress = (_: string | undefined, key: { name?: string } | undefined) => {
+    run.lastKeyName = key?.name
+  }
+  runIo.input?.on("keypress", onKeypress)
 
-export {}
+  try {
+    return await runWithOfflineMode(!!baseSettings.offline, () =>
+      runWithIo(runIo, () => wizardRuns.run(run, () => runWizardSteps(baseSettings, initialSettings, options)))
+    )
+  } catch (error) {
+    if (error === cancelled) {
+      return { status: "cancelled" }
+    }
+    throw error
+  } finally {
+    runIo.input?.off("keypress", onKeypress)
+  }
+}
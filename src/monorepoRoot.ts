@@ -0,0 +1,165 @@
+import { getPackageManagerPin, isYarnBerry } from "determinePackageManager"
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from "fs"
+import { parseJson } from "monorepoWorkspace"
+import { PackageSettings } from "packageSettings"
+import path from "path"
+import { SideEffect } from "rollback"
+import { stringify } from "yaml"
+
+/** The directory of the monorepo that contains the packages */
+export const monorepoPackagesDirectory = "packages"
+
+/** A file of the monorepo root. The path is relative to the root */
+export type MonorepoFile = { file: string; content: string }
+
+const toJson = (json: unknown) => JSON.stringify(json, undefined, 2) + "\n"
+
+/** The shared typescript config of the packages */
+const baseTsconfigFile = "tsconfig.base.json"
+
+/** Get the command that runs a script in every package */
+const runInPackages = (settings: PackageSettings, script: string) => {
+  switch (settings.packageManager) {
+    case "pnpm":
+      return `pnpm -r run ${script}`
+    case "yarn":
+      // Without a known version, yarn classic is assumed, as it is what a global yarn install gives you
+      return settings.packageManagerVersions?.yarn && isYarnBerry(settings.packageManagerVersions.yarn)
+        ? `yarn workspaces foreach -A -t run ${script}`
+        : `yarn workspaces run ${script}`
+    case "bun":
+      return `bun run --filter '*' ${script}`
+    case "npm":
+    case undefined:
+      return `npm run ${script} --workspaces --if-present`
+  }
+}
+
+/** Get the root package.json of the monorepo */
+export const getMonorepoPackageJson = (settings: PackageSettings) => ({
+  name: settings.name,
+  version: "0.0.0",
+  private: true,
+  ...(settings.description ? { description: settings.description } : {}),
+  ...(settings.authorName
+    ? { author: settings.authorEmail ? `${settings.authorName} <${settings.authorEmail}>` : settings.authorName }
+    : {}),
+  ...(getPackageManagerPin(settings) ? { packageManager: getPackageManagerPin(settings) } : {}),
+  ...(settings.packageManager === "pnpm" ? {} : { workspaces: [`${monorepoPackagesDirectory}/*`] }),
+  scripts: {
+    build: runInPackages(settings, "build"),
+    test: runInPackages(settings, "test"),
+    lint: "eslint .",
+    format: "prettier --write .",
+  },
+  devDependencies: {
+    "@typescript-eslint/eslint-plugin": "^5.30.7",
+    "@typescript-eslint/parser": "^5.30.7",
+    "eslint": "^8.20.0",
+    "eslint-config-prettier": "^8.5.0",
+    "prettier": "^2.7.1",
+    "typescript": "^4.7.4",
+  },
+})
+
+/**
+ * Get the files of the monorepo root: The workspace config for the package manager, the shared configs for typescript,
+ * eslint and prettier and a tsconfig.json that references all packages
+ */
+export const getMonorepoFiles = (settings: PackageSettings): MonorepoFile[] => [
+  { file: "package.json", content: toJson(getMonorepoPackageJson(settings)) },
+  ...(settings.packageManager === "pnpm"
+    ? [{ file: "pnpm-workspace.yaml", content: stringify({ packages: [`${monorepoPackagesDirectory}/*`] }) }]
+    : []),
+  {
+    file: baseTsconfigFile,
+    content: toJson({
+      compilerOptions: {
+        target: "es2020",
+        module: "es2020",
+        moduleResolution: "node",
+        declaration: true,
+        declarationMap: true,
+        sourceMap: true,
+        composite: true,
+        strict: true,
+        esModuleInterop: true,
+        forceConsistentCasingInFileNames: true,
+        skipLibCheck: true,
+      },
+    }),
+  },
+  {
+    file: "tsconfig.json",
+    content: toJson({
+      files: [],
+      references: (settings.members ?? []).map(member => ({ path: `./${member.path}` })),
+    }),
+  },
+  {
+    file: ".eslintrc.json",
+    content: toJson({
+      root: true,
+      parser: "@typescript-eslint/parser",
+      plugins: ["@typescript-eslint"],
+      extends: ["eslint:recommended", "plugin:@typescript-eslint/recommended", "prettier"],
+      ignorePatterns: ["dist", "node_modules"],
+    }),
+  },
+  {
+    file: ".prettierrc.json",
+    content: toJson({ arrowParens: "avoid", printWidth: 120, semi: false, trailingComma: "es5" }),
+  },
+  { file: ".gitignore", content: ["node_modules", "dist", "coverage", "*.tsbuildinfo", ""].join("\n") },
+]
+
+/** Write the files of the monorepo root. Returns the side effects, that remove them again */
+export const writeMonorepoFiles = (directory: string, files: MonorepoFile[]): SideEffect[] => {
+  mkdirSync(directory, { recursive: true })
+  return files.map(({ file, content }) => {
+    const filePath = path.join(directory, file)
+    writeFileSync(filePath, content)
+    return { description: `Created ${filePath}`, undo: async () => rmSync(filePath, { force: true }) }
+  })
+}
+
+// Eslint and prettier look for their configs in the parent directories, so without their own the packages use the shared ones
+const isPackageLintConfig = (file: string) =>
+  /^(\.(eslintrc|prettierrc)(\..+)?|(eslint|prettier)\.config\..+)$/.test(file)
+
+/**
+ * Make a package of the monorepo use the shared configs of the root: Its tsconfig.json extends tsconfig.base.json and
+ * its own eslint and prettier configs are removed. The comments of its tsconfig.json are not kept, as the package is new.
+ * Returns the side effects, that restore the package's configs
+ */
+export const useSharedConfigs = (root: string, packageDirectory: string): SideEffect[] => {
+  const sideEffects: SideEffect[] = []
+
+  const tsconfigPath = path.join(packageDirectory, "tsconfig.json")
+  const tsconfig = existsSync(tsconfigPath) ? readFileSync(tsconfigPath, "utf8") : ""
+  const parsedTsconfig = parseJson(tsconfig) as Record<string, unknown> | undefined
+  // A package that already extends a config keeps it
+  if (parsedTsconfig && typeof parsedTsconfig === "object" && !parsedTsconfig.extends) {
+    const baseTsconfigPath = path
+      .relative(packageDirectory, path.join(root, baseTsconfigFile))
+      .split(path.sep)
+      .join("/")
+    writeFileSync(tsconfigPath, toJson({ extends: baseTsconfigPath, ...parsedTsconfig }))
+    sideEffects.push({
+      description: `Made ${tsconfigPath} extend ${baseTsconfigPath}`,
+      undo: async () => writeFileSync(tsconfigPath, tsconfig),
+    })
+  }
+
+  for (const file of readdirSync(packageDirectory).filter(isPackageLintConfig)) {
+    const filePath = path.join(packageDirectory, file)
+    const content = readFileSync(filePath)
+    rmSync(filePath)
+    sideEffects.push({
+      description: `Removed ${filePath} in favor of the shared config`,
+      undo: async () => writeFileSync(filePath, content),
+    })
+  }
+
+  return sideEffects
+}
@@ -0,0 +1,291 @@
+import { parsePackageManagerField } from "determinePackageManager"
+import { existsSync, readFileSync, writeFileSync } from "fs"
+import path from "path"
+import { SideEffect } from "rollback"
+import { isSeq, parse, parseDocument } from "yaml"
+
+/** The tools that can manage the packages of a monorepo. `workspaces` is the workspaces field of the package.json */
+export type WorkspaceTool = "pnpm" | "workspaces" | "lerna" | "nx" | "turbo"
+
+/** A file that lists the packages of the workspace as globs */
+export type WorkspaceGlobs = {
+  file: "pnpm-workspace.yaml" | "package.json" | "lerna.json"
+  globs: string[]
+}
+
+export type MonorepoWorkspace = {
+  /** The directory with the workspace configuration */
+  root: string
+  tools: WorkspaceTool[]
+  globs: WorkspaceGlobs[]
+  /** The package manager the workspace uses, if it can be told from its files */
+  packageManager?: "pnpm" | "yarn" | "npm" | "bun"
+  /** If the root tsconfig.json uses project references */
+  projectReferences: boolean
+}
+
+/** A file that gets changed to register the package in the workspace */
+export type WorkspaceChange = {
+  file: string
+  description: string
+  content: string
+}
+
+/** Parse json with comments and trailing commas, like tsconfig.json. Returns undefined, if it is not valid */
+export const parseJson = (text: string) => {
+  try {
+    return JSON.parse(
+      text.replace(
+        /("(?:\\.|[^"\\])*")|\/\/[^\n]*|\/\*[\s\S]*?\*\/|,(?=\s*[}\]])/g,
+        (_, string?: string) => string ?? ""
+      )
+    ) as unknown
+  } catch {
+    return undefined
+  }
+}
+
+const readJson = (file: string): Record<string, unknown> | undefined => {
+  if (!existsSync(file)) {
+    return undefined
+  }
+  const json = parseJson(readFileSync(file, "utf8"))
+  return json && typeof json === "object" && !Array.isArray(json) ? (json as Record<string, unknown>) : undefined
+}
+
+/** Serialize the json with the indentation of the original file */
+const formatJson = (json: unknown, original: string) =>
+  JSON.stringify(json, undefined, /^([ \t]+)"/m.exec(original)?.[1] ?? 2) + (original.endsWith("\n") ? "\n" : "")
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === "string")
+
+/** Get the globs of the workspaces field. Yarn also allows an object with the globs in packages */
+const getWorkspacesField = (packageJson: Record<string, unknown> | undefined) => {
+  const workspaces = packageJson?.workspaces
+  if (isStringArray(workspaces)) {
+    return workspaces
+  }
+  const packages = (workspaces as { packages?: unknown } | undefined)?.packages
+  return isStringArray(packages) ? packages : undefined
+}
+
+const getPackageManager = (root: string, packageJson: Record<string, unknown> | undefined, lernaJson?: object) => {
+  const declaredPackageManager = parsePackageManagerField(packageJson?.packageManager)?.packageManager
+  if (declaredPackageManager) {
+    return declaredPackageManager
+  }
+  if (existsSync(path.join(root, "pnpm-workspace.yaml")) || existsSync(path.join(root, "pnpm-lock.yaml"))) {
+    return "pnpm"
+  }
+  if (existsSync(path.join(root, "yarn.lock"))) {
+    return "yarn"
+  }
+  if (existsSync(path.join(root, "package-lock.json"))) {
+    return "npm"
+  }
+  if (existsSync(path.join(root, "bun.lock")) || existsSync(path.join(root, "bun.lockb"))) {
+    return "bun"
+  }
+  const npmClient = (lernaJson as { npmClient?: unknown } | undefined)?.npmClient
+  if (npmClient === "pnpm" || npmClient === "yarn" || npmClient === "npm") {
+    return npmClient
+  }
+  return getWorkspacesField(packageJson) ? "npm" : undefined
+}
+
+const getWorkspace = (root: string): MonorepoWorkspace | undefined => {
+  const packageJson = readJson(path.join(root, "package.json"))
+  const lernaJson = readJson(path.join(root, "lerna.json"))
+  const pnpmWorkspace = existsSync(path.join(root, "pnpm-workspace.yaml"))
+    ? (parse(readFileSync(path.join(root, "pnpm-workspace.yaml"), "utf8")) as { packages?: unknown } | null) ?? {}
+    : undefined
+  const workspacesField = getWorkspacesField(packageJson)
+
+  const tools: WorkspaceTool[] = [
+    ...(pnpmWorkspace ? ["pnpm" as const] : []),
+    ...(workspacesField ? ["workspaces" as const] : []),
+    ...(lernaJson ? ["lerna" as const] : []),
+    ...(existsSync(path.join(root, "nx.json")) ? ["nx" as const] : []),
+    ...(existsSync(path.join(root, "turbo.json")) ? ["turbo" as const] : []),
+  ]
+  if (tools.length === 0) {
+    return undefined
+  }
+
+  const globs: WorkspaceGlobs[] = [
+    ...(pnpmWorkspace
+      ? [
+          {
+            file: "pnpm-workspace.yaml" as const,
+            globs: isStringArray(pnpmWorkspace.packages) ? pnpmWorkspace.packages : [],
+          },
+        ]
+      : []),
+    ...(workspacesField ? [{ file: "package.json" as const, globs: workspacesField }] : []),
+    ...(isStringArray(lernaJson?.packages)
+      ? [{ file: "lerna.json" as const, globs: lernaJson?.packages as string[] }]
+      : []),
+  ]
+  const tsconfig = readJson(path.join(root, "tsconfig.json"))
+
+  return {
+    root,
+    tools,
+    globs,
+    packageManager: getPackageManager(root, packageJson, lernaJson),
+    projectReferences: Array.isArray(tsconfig?.references),
+  }
+}
+
+/**
+ * Find the monorepo workspace that contains the directory. Searches the directory and its parents,
+ * but does not leave the git repository
+ */
+export const findWorkspace = (directory: string): MonorepoWorkspace | undefined => {
+  let currentDirectory = path.resolve(directory)
+  for (;;) {
+    const workspace = existsSync(currentDirectory) ? getWorkspace(currentDirectory) : undefined
+    if (workspace) {
+      return workspace
+    }
+    const parentDirectory = path.dirname(currentDirectory)
+    if (existsSync(path.join(currentDirectory, ".git")) || parentDirectory === currentDirectory) {
+      return undefined
+    }
+    currentDirectory = parentDirectory
+  }
+}
+
+/** Describe the workspace for the user, e.g. "pnpm workspace with turbo" */
+export const describeWorkspace = (workspace: MonorepoWorkspace) => {
+  const [mainTool, ...otherTools] = workspace.tools
+  const name = `${mainTool === "workspaces" ? workspace.packageManager ?? "npm" : mainTool} workspace`
+  const additionalTools = otherTools.filter(tool => tool !== "workspaces")
+  return additionalTools.length > 0 ? `${name} with ${additionalTools.join(" and ")}` : name
+}
+
+const globToRegExp = (glob: string) =>
+  new RegExp(
+    "^" +
+      glob
+        .replace(/^\.\//, "")
+        .replace(/\/+$/, "")
+        .split("/")
+        .map(segment =>
+          segment === "**"
+            ? ".*"
+            : segment
+                .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+                .replace(/\*/g, "[^/]*")
+                .replace(/\?/g, "[^/]")
+        )
+        .join("/") +
+      "$"
+  )
+
+/** Check if the globs include the path. The path is relative to the workspace root */
+export const matchesWorkspaceGlobs = (globs: string[], relativePath: string) =>
+  globs.some(glob => !glob.startsWith("!") && globToRegExp(glob).test(relativePath)) &&
+  !globs.some(glob => glob.startsWith("!") && globToRegExp(glob.slice(1)).test(relativePath))
+
+const addGlob = (workspace: MonorepoWorkspace, { file }: WorkspaceGlobs, glob: string): WorkspaceChange => {
+  const filePath = path.join(workspace.root, file)
+  const original = readFileSync(filePath, "utf8")
+  const description = `Add ${glob} to the packages in ${filePath}`
+
+  if (file === "pnpm-workspace.yaml") {
+    const document = parseDocument(original)
+    const packages = document.get("packages")
+    if (isSeq(packages)) {
+      packages.add(glob)
+    } else {
+      document.set("packages", [glob])
+    }
+    return { file: filePath, description, content: document.toString() }
+  }
+
+  const json = JSON.parse(original) as Record<string, unknown>
+  if (file === "lerna.json") {
+    return {
+      file: filePath,
+      description,
+      content: formatJson({ ...json, packages: [...(json.packages as string[]), glob] }, original),
+    }
+  }
+  const workspaces = isStringArray(json.workspaces)
+    ? [...json.workspaces, glob]
+    : { ...(json.workspaces as object), packages: [...(getWorkspacesField(json) ?? []), glob] }
+  return { file: filePath, description, content: formatJson({ ...json, workspaces }, original) }
+}
+
+/**
+ * Get the changes that add the package to the workspace: Its path is added to every list of package globs that does not
+ * include it yet and a project reference is added, if the root tsconfig.json uses them.
+ * Files with comments are not changed, as they would get lost. They are returned as manual steps instead
+ */
+export const getWorkspaceChanges = (workspace: MonorepoWorkspace, packageDirectory: string) => {
+  const relativePath = path.relative(workspace.root, packageDirectory).split(path.sep).join("/")
+  const changes: WorkspaceChange[] = workspace.globs
+    .filter(({ globs }) => !matchesWorkspaceGlobs(globs, relativePath))
+    .map(globs => addGlob(workspace, globs, relativePath))
+  const manualSteps: string[] = []
+
+  if (workspace.projectReferences) {
+    const tsconfigPath = path.join(workspace.root, "tsconfig.json")
+    const original = readFileSync(tsconfigPath, "utf8")
+    const tsconfig = parseJson(original) as { references: Array<{ path?: unknown }> }
+    const referencePath = `./${relativePath}`
+    const isReferenced = tsconfig.references.some(
+      reference =>
+        typeof reference.path === "string" && path.resolve(workspace.root, reference.path) === packageDirectory
+    )
+    if (!isReferenced) {
+      // JSON.parse fails for files with comments
+      try {
+        changes.push({
+          file: tsconfigPath,
+          description: `Add a project reference to ${referencePath} in ${tsconfigPath}`,
+          content: formatJson(
+            { ...(JSON.parse(original) as object), references: [...tsconfig.references, { path: referencePath }] },
+            original
+          ),
+        })
+      } catch {
+        manualSteps.push(`Add { "path": "${referencePath}" } to the references in ${tsconfigPath}`)
+      }
+    }
+
+    // Referenced projects need to be composite
+    const packageTsconfigPath = path.join(packageDirectory, "tsconfig.json")
+    const packageTsconfig = readJson(packageTsconfigPath)
+    const compilerOptions = (packageTsconfig?.compilerOptions ?? {}) as Record<string, unknown>
+    if (packageTsconfig && compilerOptions.composite !== true) {
+      const packageOriginal = readFileSync(packageTsconfigPath, "utf8")
+      try {
+        changes.push({
+          file: packageTsconfigPath,
+          description: `Enable composite in ${packageTsconfigPath}`,
+          content: formatJson(
+            { ...(JSON.parse(packageOriginal) as object), compilerOptions: { ...compilerOptions, composite: true } },
+            packageOriginal
+          ),
+        })
+      } catch {
+        manualSteps.push(`Set compilerOptions.composite to true in ${packageTsconfigPath}`)
+      }
+    }
+  }
+
+  return { changes, manualSteps }
+}
+
+/** Write the change. Returns the side effect, that restores the previous content */
+export const applyWorkspaceChange = (change: WorkspaceChange): SideEffect => {
+  const previousContent = readFileSync(change.file, "utf8")
+  writeFileSync(change.file, change.content)
+  return {
+    description: `Registered the package in ${change.file}`,
+    undo: async () => writeFileSync(change.file, previousContent),
+  }
+}
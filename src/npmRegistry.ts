@@ -0,0 +1,107 @@
+import { apiRequest } from "apiClient"
+import { existsSync, readFileSync } from "fs"
+import { homedir } from "os"
+import path from "path"
+
+export const defaultRegistry = "https://registry.npmjs.org/"
+
+/** Whether a package name can still be published. Unknown, if the registry could not be reached */
+export type NameAvailability = "available" | "taken" | "unknown"
+
+export type Registry = {
+  url: string
+  /** The _authToken that is configured for the registry */
+  token?: string
+}
+
+/** Parse an .npmrc file. Environment variables like ${NPM_TOKEN} are replaced, like npm does */
+const readNpmrc = (file: string): Record<string, string> => {
+  if (!existsSync(file)) {
+    return {}
+  }
+  const entries = readFileSync(file, "utf8")
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith(";") && !line.startsWith("#") && line.includes("="))
+    .map(line => {
+      const [key, ...value] = line.split("=")
+      const unquotedValue = value
+        .join("=")
+        .trim()
+        .replace(/^"(.*)"$/, "$1")
+      return [key.trim(), unquotedValue.replace(/\$\{([^}]+)\}/g, (_, name: string) => process.env[name] ?? "")]
+    })
+  return Object.fromEntries(entries) as Record<string, string>
+}
+
+/** Get the closest .npmrc in the directory or its parents */
+const findProjectNpmrc = (directory: string) => {
+  let currentDirectory = path.resolve(directory)
+  for (;;) {
+    if (existsSync(path.join(currentDirectory, ".npmrc"))) {
+      return path.join(currentDirectory, ".npmrc")
+    }
+    const parentDirectory = path.dirname(currentDirectory)
+    if (parentDirectory === currentDirectory) {
+      return undefined
+    }
+    currentDirectory = parentDirectory
+  }
+}
+
+/**
+ * Get the registry npm would publish the package to. Scoped packages use the registry of their scope, if one is configured.
+ * Otherwise the registry from the environment takes precedence over the .npmrc of the project and then of the user
+ */
+export const getRegistry = (name: string, directory: string): Registry => {
+  const projectNpmrc = findProjectNpmrc(directory)
+  const config = {
+    ...readNpmrc(process.env.npm_config_userconfig ?? path.join(homedir(), ".npmrc")),
+    ...(projectNpmrc ? readNpmrc(projectNpmrc) : {}),
+  }
+  const scope = /^(@[^/]+)\//.exec(name)?.[1]
+  const configuredUrl =
+    (scope && config[`${scope}:registry`]) || process.env.npm_config_registry || config.registry || defaultRegistry
+  const url = configuredUrl.endsWith("/") ? configuredUrl : `${configuredUrl}/`
+
+  // Tokens are configured for the registry url without the protocol, e.g. //registry.npmjs.org/:_authToken
+  const tokenKey = Object.keys(config)
+    .filter(
+      key => key.endsWith(":_authToken") && url.replace(/^https?:/, "").startsWith(key.slice(0, -":_authToken".length))
+    )
+    .sort((a, b) => b.length - a.length)[0]
+  return { url, token: tokenKey ? config[tokenKey] : undefined }
+}
+
+const availabilityByName: Record<string, undefined | Promise<NameAvailability>> = {}
+const knownAvailability: Record<string, undefined | NameAvailability> = {}
+
+/** Check whether the name is already taken on the registry of the directory. The results are cached */
+export const checkNameAvailability = (name: string, directory: string) => {
+  const registry = getRegistry(name, directory)
+  const cacheKey = `${registry.url}${name}`
+  const prevPromise = availabilityByName[cacheKey]
+  if (prevPromise) {
+    return prevPromise
+  }
+
+  const promise = apiRequest(`${registry.url}${name.replace("/", "%2f")}`, {
+    // The abbreviated metadata is a lot smaller than the full package document
+    headers: {
+      Accept: "application/vnd.npm.install-v1+json",
+      ...(registry.token ? { Authorization: `Bearer ${registry.token}` } : {}),
+    },
+    timeout: 5000,
+    retries: 1,
+  }).then((result): NameAvailability => {
+    const availability = result.ok ? "taken" : result.type === "http" && result.status === 404 ? "available" : "unknown"
+    knownAvailability[cacheKey] = availability
+    return availability
+  })
+  availabilityByName[cacheKey] = promise
+  return promise
+}
+
+/** Check if an earlier check found the name to be taken. Does not send a request */
+export const isKnownToBeTaken = (name: string, directory: string) =>
+  knownAvailability[`${getRegistry(name, directory).url}${name}`] === "taken"
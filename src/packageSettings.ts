@@ -0,0 +1,138 @@
+import { MonorepoWorkspace } from "monorepoWorkspace"
+
+export type GitAccountInfo = {
+  type: "github" | "gitlab" | "gitea"
+  /** The hostname of the git hosting service, e.g. github.com */
+  host: string
+  username: string
+  confidence: number
+}
+
+/** Options for creating a new repository on a git host */
+export type RepositoryOptions = {
+  visibility: "public" | "private" | "internal"
+  /** The license template, e.g. MIT. An empty string means no license */
+  licenseTemplate: string
+  /** The gitignore template, e.g. Node. An empty string means no gitignore */
+  gitignoreTemplate: string
+  /** Create an initial commit */
+  autoInit: boolean
+  topics: string[]
+  /** The homepage of the repository. Points to the repository itself if it is not set */
+  homepage?: string
+  hasIssues: boolean
+  hasWiki: boolean
+  hasProjects: boolean
+}
+
+/** A repository on a git host that is accessible with one of the signed in accounts */
+export type HostedRepository = {
+  provider: GitAccountInfo["type"]
+  host: string
+  /** The user, organization or namespace that owns the repository */
+  owner: string
+  name: string
+  /** The git url of the repository */
+  url: string
+}
+
+/** A package that is created inside a new monorepo */
+export type MonorepoMember = {
+  name: string
+  description?: string
+  type: "library" | "application"
+  /** The path of the package, relative to the monorepo root */
+  path: string
+}
+
+/** Where a github token came from */
+export type GithubTokenSource = "flag" | "environment" | "githubCli" | "credentialStore" | "gitCredential" | "signIn"
+
+export type PackageSettings = {
+  // Real settings for creation
+  path?: string
+  name?: string
+  description?: string
+  /** A monorepo creates a workspace root with the packages in members */
+  type?: "library" | "application" | "monorepo"
+  monorepo?: boolean
+  repo?: string
+  branch?: string
+  authorName?: string
+  authorEmail?: string
+
+  // Only use for this wizard
+  /** The directory in which the wizard was invoked */
+  invokeDirectory: string
+  pathInfos: Record<
+    string,
+    {
+      /** If the target path is inside the git tree */
+      inGitTree: boolean
+      /** If the target path is a git repository */
+      isGitRoot: boolean
+      /** If the target path already exists */
+      pathExists: boolean
+      /** The first existing path, if we move up from the target path */
+      firstExistingPathUp: string
+      /** The target path with the invoke directory prepended */
+      absolutePath: string
+      /** The git origin, if it is inside a repository */
+      gitOrigin?: string
+      /** The monorepo workspace that surrounds the target path */
+      workspace?: MonorepoWorkspace
+    }
+  >
+  gitUsername?: string
+  gitEmail?: string
+  osUsername?: string
+  gitAccount?: GitAccountInfo
+  // True if the path was explicitly set
+  explicitPath?: boolean
+  // github username
+  githubUsername?: string
+  // github token
+  githubToken?: string
+  /** Where the github token came from */
+  githubTokenSource?: GithubTokenSource
+  /** A github token that did not work. It is not used */
+  staleGithubToken?: { host: string; source: GithubTokenSource }
+  /** The hostname of the github instance. Defaults to github.com */
+  githubHost?: string
+  /** All hosts that are configured in the github cli or in our credential store */
+  githubCliHosts?: string[]
+  // gitlab username
+  gitlabUsername?: string
+  // gitlab token
+  gitlabToken?: string
+  /** The hostname of the gitlab instance. Defaults to gitlab.com */
+  gitlabHost?: string
+  /** The hostname of a gitea or forgejo instance. Can contain the protocol, if it is not https */
+  giteaHost?: string
+  // gitea username
+  giteaUsername?: string
+  // gitea token
+  giteaToken?: string
+  // github protocol
+  gitProtocol?: "https" | "ssh"
+  /** Options that were changed from the defaults for creating new repositories */
+  repositoryOptions?: Partial<RepositoryOptions>
+  /** The repository that will be created after the settings were reviewed. Only applies while it is the selected repo */
+  plannedRepository?: HostedRepository
+  /** The packages that are created inside the new monorepo, if the type is monorepo */
+  members?: MonorepoMember[]
+  /** The npm scope that is used for recommended package names */
+  scope?: string
+
+  packageManager?: "pnpm" | "yarn" | "npm" | "bun"
+  /** Why the package manager was preselected, e.g. "/home/user/project/yarn.lock exists" */
+  packageManagerReason?: string
+  /** The versions of the installed package managers. A version that is pinned by the surrounding project replaces it */
+  packageManagerVersions?: Partial<Record<"pnpm" | "yarn" | "npm" | "bun", string>>
+  /** Write the package manager with its version into the packageManager field, so corepack uses the same version */
+  pinPackageManager?: boolean
+  /** Walk through the wizard and print what would happen, without changing anything */
+  dryRun?: boolean
+  /** Do not contact any git host. Accounts are only taken from the local git config and the github cli hosts file */
+  offline?: boolean
+}
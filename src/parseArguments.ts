@@ -0,0 +1,253 @@
+import { PackageSettings, RepositoryOptions } from "packageSettings"
+import validate from "validate-npm-package-name"
+
+export type CommandLineArguments = {
+  /** Settings that were explicitly supplied on the command line */
+  settings: Partial<
+    Pick<
+      PackageSettings,
+      | "name"
+      | "path"
+      | "type"
+      | "description"
+      | "repo"
+      | "branch"
+      | "authorName"
+      | "authorEmail"
+      | "monorepo"
+      | "packageManager"
+      | "explicitPath"
+      | "githubHost"
+      | "githubToken"
+      | "gitlabHost"
+      | "giteaHost"
+      | "repositoryOptions"
+      | "offline"
+    >
+  >
+  /** Create the repository on the git host, if it does not exist yet */
+  createRepo: boolean
+  /** Do not prompt, fill everything else with the inferred defaults */
+  yes: boolean
+  /** Print what would happen instead of creating anything */
+  dryRun: boolean
+  /** Continue the last unfinished session at the review */
+  resume: boolean
+  /** File to store the answers of this session in */
+  record?: string
+  /** File with recorded answers that are used instead of asking */
+  answers?: string
+  /** Print the usage and exit */
+  help: boolean
+}
+
+export const usage = `Usage: create-typescript-thing [options]
+
+Options:
+  --name <name>                 Name of the new package
+  --path <path>                 Directory for the new package
+  --type <type>                 Type of the package (library, application, monorepo)
+  --description <description>   Short description of the package
+  --repo <url>                  Url of the git origin
+  --branch <branch>             Branch of the git origin
+  --author-name <name>          Name of the author
+  --author-email <email>        Email of the author
+  --monorepo, --no-monorepo     Whether the package is part of a monorepo
+  --package-manager <manager>   Package manager to use (npm, pnpm, yarn, bun)
+  --github-host <host>          Hostname of your github instance, e.g. a github enterprise server
+  --github-token <token>        Github token to use instead of the stored credentials
+  --gitlab-host <host>          Hostname of your gitlab instance
+  --gitea-host <host>           Hostname of your gitea or forgejo instance
+  --create-repo                 Create the repository on the git host, if it does not exist yet
+  --offline                     Do not contact any git host, e.g. in air-gapped environments
+
+Options for creating the repository:
+  --visibility <visibility>     Visibility of the repository (public, private, internal)
+  --license <template>          License template, e.g. MIT. Use "none" for no license
+  --gitignore <template>        Gitignore template, e.g. Node. Use "none" for no gitignore
+  --no-auto-init                Do not create an initial commit
+  --topics <topics>             Comma separated list of topics
+  --homepage <url>              Homepage of the repository
+  --issues, --no-issues         Enable or disable issues
+  --wiki, --no-wiki             Enable or disable the wiki
+  --projects, --no-projects     Enable or disable projects
+
+  -y, --yes                     Do not ask any questions, use defaults for everything that was not specified
+  --dry-run                     Print what would happen instead of creating anything
+  --resume                      Continue your last unfinished session at the review
+  --record <file>               Store every answer in a file, so the session can be replayed
+  --answers <file>              Answer the questions with the answers from a recorded file
+  -h, --help                    Show this help
+`
+
+const packageTypes = ["library", "application", "monorepo"] as const
+const packageManagers = ["npm", "pnpm", "yarn", "bun"] as const
+const visibilities = ["public", "private", "internal"] as const
+
+const checkChoice = <T extends string>(flag: string, value: string, choices: readonly T[]): T => {
+  if (!(choices as readonly string[]).includes(value)) {
+    throw new Error(`Invalid value "${value}" for ${flag}, expected one of: ${choices.join(", ")}`)
+  }
+  return value as T
+}
+
+/** Parse the command line arguments into settings for the wizard. Throws on invalid arguments */
+export const parseArguments = (argv: string[]): CommandLineArguments => {
+  const result: CommandLineArguments = {
+    settings: {},
+    createRepo: false,
+    yes: false,
+    dryRun: false,
+    resume: false,
+    help: false,
+  }
+  const setRepositoryOption = <T extends keyof RepositoryOptions>(key: T, value: RepositoryOptions[T]) => {
+    result.settings.repositoryOptions = { ...result.settings.repositoryOptions, [key]: value }
+  }
+
+  for (let index = 0; index < argv.length; index++) {
+    const argument = argv[index]
+    const [flag, inlineValue] =
+      argument.startsWith("--") && argument.includes("=") ? argument.split(/=(.*)/s) : [argument]
+
+    const takeValue = () => {
+      if (inlineValue !== undefined) {
+        return inlineValue
+      }
+      const value = argv[index + 1]
+      if (value === undefined || value.startsWith("-")) {
+        throw new Error(`Missing value for ${flag}`)
+      }
+      index++
+      return value
+    }
+
+    switch (flag) {
+      case "--name": {
+        const name = takeValue()
+        const validation = validate(name)
+        if (!validation.validForNewPackages) {
+          throw new Error(
+            `Invalid package name "${name}": ` +
+              [...(validation.errors || []), ...(validation.warnings || [])].join(" | ")
+          )
+        }
+        result.settings.name = name
+        break
+      }
+      case "--path":
+        result.settings.path = takeValue()
+        result.settings.explicitPath = true
+        break
+      case "--type":
+        result.settings.type = checkChoice(flag, takeValue(), packageTypes)
+        break
+      case "--description":
+        result.settings.description = takeValue()
+        break
+      case "--repo":
+        result.settings.repo = takeValue()
+        break
+      case "--branch":
+        result.settings.branch = takeValue()
+        break
+      case "--author-name":
+        result.settings.authorName = takeValue()
+        break
+      case "--author-email":
+        result.settings.authorEmail = takeValue()
+        break
+      case "--monorepo":
+        result.settings.monorepo = true
+        break
+      case "--no-monorepo":
+        result.settings.monorepo = false
+        break
+      case "--package-manager":
+        result.settings.packageManager = checkChoice(flag, takeValue(), packageManagers)
+        break
+      case "--github-host":
+        result.settings.githubHost = takeValue()
+        break
+      case "--github-token":
+        result.settings.githubToken = takeValue()
+        break
+      case "--gitlab-host":
+        result.settings.gitlabHost = takeValue()
+        break
+      case "--gitea-host":
+        result.settings.giteaHost = takeValue()
+        break
+      case "--create-repo":
+        result.createRepo = true
+        break
+      case "--offline":
+        result.settings.offline = true
+        break
+      case "--visibility":
+        setRepositoryOption("visibility", checkChoice(flag, takeValue(), visibilities))
+        break
+      case "--license": {
+        const license = takeValue()
+        setRepositoryOption("licenseTemplate", license === "none" ? "" : license)
+        break
+      }
+      case "--gitignore": {
+        const gitignore = takeValue()
+        setRepositoryOption("gitignoreTemplate", gitignore === "none" ? "" : gitignore)
+        break
+      }
+      case "--no-auto-init":
+        setRepositoryOption("autoInit", false)
+        break
+      case "--topics":
+        setRepositoryOption(
+          "topics",
+          takeValue()
+            .split(",")
+            .map(topic => topic.trim())
+            .filter(topic => topic)
+        )
+        break
+      case "--homepage":
+        setRepositoryOption("homepage", takeValue())
+        break
+      case "--issues":
+      case "--no-issues":
+        setRepositoryOption("hasIssues", flag === "--issues")
+        break
+      case "--wiki":
+      case "--no-wiki":
+        setRepositoryOption("hasWiki", flag === "--wiki")
+        break
+      case "--projects":
+      case "--no-projects":
+        setRepositoryOption("hasProjects", flag === "--projects")
+        break
+      case "--dry-run":
+        result.dryRun = true
+        break
+      case "--resume":
+        result.resume = true
+        break
+      case "--record":
+        result.record = takeValue()
+        break
+      case "--answers":
+        result.answers = takeValue()
+        break
+      case "-y":
+      case "--yes":
+        result.yes = true
+        break
+      case "-h":
+      case "--help":
+        result.help = true
+        break
+      default:
+        throw new Error(`Unknown argument ${argument}`)
+    }
+  }
+
+  return result
+}
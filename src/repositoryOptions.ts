@@ -0,0 +1,36 @@
+import { PackageSettings, RepositoryOptions } from "packageSettings"
+
+export const defaultRepositoryOptions: RepositoryOptions = {
+  visibility: "public",
+  licenseTemplate: "MIT",
+  gitignoreTemplate: "",
+  autoInit: true,
+  topics: [],
+  hasIssues: true,
+  hasWiki: false,
+  hasProjects: false,
+}
+
+export const getRepositoryOptions = (settings: PackageSettings): RepositoryOptions => ({
+  ...defaultRepositoryOptions,
+  ...settings.repositoryOptions,
+})
+
+/** Get a short human readable summary of the repository options */
+export const describeRepositoryOptions = (options: RepositoryOptions) => {
+  const features = [
+    ...(options.hasIssues ? ["issues"] : []),
+    ...(options.hasWiki ? ["wiki"] : []),
+    ...(options.hasProjects ? ["projects"] : []),
+  ]
+
+  return [
+    options.visibility,
+    options.licenseTemplate ? `${options.licenseTemplate} license` : "no license",
+    ...(options.gitignoreTemplate ? [`${options.gitignoreTemplate} gitignore`] : []),
+    options.autoInit ? "initial commit" : "empty",
+    ...(options.topics.length ? [`topics: ${options.topics.join(", ")}`] : []),
+    ...(options.homepage ? [`homepage: ${options.homepage}`] : []),
+    features.length ? `with ${features.join(", ")}` : "without issues, wiki and projects",
+  ].join(", ")
+}
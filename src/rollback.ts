@@ -0,0 +1,33 @@
+/** A change that was made while creating the package */
+export type SideEffect = {
+  /** What was changed, e.g. "Created the directory /home/user/cool-package" */
+  description: string
+  /** Ask this question before undoing the change. Used for changes that can not be recovered once they are undone */
+  confirmation?: string
+  undo: () => Promise<void>
+}
+
+/**
+ * Undo side effects, the most recent first. A failed undo does not stop the others.
+ * @param confirm Called for every side effect with a confirmation. The side effect is kept, if it returns false
+ */
+export const undoSideEffects = async (sideEffects: SideEffect[], confirm: (question: string) => Promise<boolean>) => {
+  const undone: SideEffect[] = []
+  const kept: SideEffect[] = []
+  const failed: Array<{ sideEffect: SideEffect; error: Error }> = []
+
+  for (const sideEffect of [...sideEffects].reverse()) {
+    if (sideEffect.confirmation && !(await confirm(sideEffect.confirmation))) {
+      kept.push(sideEffect)
+      continue
+    }
+    try {
+      await sideEffect.undo()
+      undone.push(sideEffect)
+    } catch (error) {
+      failed.push({ sideEffect, error: error as Error })
+    }
+  }
+
+  return { undone, kept, failed }
+}
@@ -0,0 +1,68 @@
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "fs"
+import { homedir } from "os"
+import { PackageSettings } from "packageSettings"
+import { dirname } from "path"
+import { parse, stringify } from "yaml"
+
+export const sessionPath = homedir() + "/.config/create-typescript-thing/session.yml"
+
+/** Settings that are not saved, because they are secret or only apply to the current run */
+const unsavedKeys = [
+  "githubToken",
+  "gitlabToken",
+  "giteaToken",
+  "githubTokenSource",
+  "staleGithubToken",
+  "pathInfos",
+  "dryRun",
+  "offline",
+] as const
+
+export type SessionSnapshot = Omit<PackageSettings, (typeof unsavedKeys)[number]>
+
+export type SavedSession = {
+  /** When the session was saved as an ISO date */
+  savedAt: string
+  settings: SessionSnapshot
+}
+
+/** Get the settings without secrets and without the values that only apply to the current run */
+export const getSessionSnapshot = (settings: PackageSettings): SessionSnapshot =>
+  Object.fromEntries(
+    Object.entries(settings).filter(
+      ([key, value]) => !(unsavedKeys as readonly string[]).includes(key) && value !== undefined
+    )
+  ) as SessionSnapshot
+
+/** Save the settings, so the session can be resumed later. Only readable by the current user, as it contains the email */
+export const saveSession = (settings: PackageSettings) => {
+  const session: SavedSession = { savedAt: new Date().toISOString(), settings: getSessionSnapshot(settings) }
+  mkdirSync(dirname(sessionPath), { recursive: true, mode: 0o700 })
+  writeFileSync(sessionPath, stringify(session), { mode: 0o600 })
+}
+
+/** Get the saved session. Returns undefined if there is none or if it is not readable */
+export const getSavedSession = (): SavedSession | undefined => {
+  if (!existsSync(sessionPath)) {
+    return undefined
+  }
+
+  try {
+    const session = parse(readFileSync(sessionPath, "utf8")) as Partial<SavedSession> | null
+    if (
+      !session ||
+      typeof session.savedAt !== "string" ||
+      typeof session.settings !== "object" ||
+      typeof session.settings?.invokeDirectory !== "string"
+    ) {
+      return undefined
+    }
+    return session as SavedSession
+  } catch {
+    return undefined
+  }
+}
+
+export const removeSavedSession = () => {
+  rmSync(sessionPath, { force: true })
+}
@@ -0,0 +1,40 @@
+import { existsSync, readFileSync, rmSync, writeFileSync } from "fs"
+import path from "path"
+
+/** The lockfiles of the other package managers. They are replaced by the lockfile of bun */
+const otherLockfiles = ["package-lock.json", "npm-shrinkwrap.json", "yarn.lock", "pnpm-lock.yaml"]
+
+/** Get the scripts that run the package with bun. Bun runs typescript directly, so start does not need a build */
+export const getBunScripts = (scripts: Record<string, string>, directory: string): Record<string, string> => ({
+  ...scripts,
+  ...(existsSync(path.join(directory, "src", "index.ts")) ? { start: "bun run src/index.ts" } : {}),
+  test: "bun test",
+})
+
+/**
+ * createTypescriptThing sets packages up with npm. This switches the package to bun: The start and test scripts run
+ * with bun, the bun types are added and the npm lockfile is removed. Run bun install afterwards to create the bun lockfile
+ */
+export const switchToBun = (directory: string) => {
+  for (const lockfile of otherLockfiles) {
+    rmSync(path.join(directory, lockfile), { force: true })
+  }
+
+  const packageJsonPath = path.join(directory, "package.json")
+  const packageJson = JSON.parse(readFileSync(packageJsonPath, "utf8")) as {
+    scripts?: Record<string, string>
+    devDependencies?: Record<string, string>
+  }
+  writeFileSync(
+    packageJsonPath,
+    JSON.stringify(
+      {
+        ...packageJson,
+        scripts: getBunScripts(packageJson.scripts ?? {}, directory),
+        devDependencies: { ...packageJson.devDependencies, "@types/bun": "latest" },
+      },
+      undefined,
+      2
+    ) + "\n"
+  )
+}
@@ -14,3 +14,6 @@ export const sh = async (cmd: string) => {
     })
   })
 }
+
+/** Runs a shell command. Can be replaced, e.g. to run the wizard without touching the real git config */
+export type Shell = typeof sh
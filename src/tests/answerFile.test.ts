@@ -0,0 +1,32 @@
+import { readAnswerFile, RecordedAnswer, writeAnswerFile } from "answerFile"
+import { mkdtempSync, rmSync, writeFileSync } from "fs"
+import { tmpdir } from "os"
+import path from "path"
+
+describe("answer files", () => {
+  const directory = mkdtempSync(path.join(tmpdir(), "answers-"))
+
+  afterAll(() => {
+    rmSync(directory, { recursive: true, force: true })
+  })
+
+  test("reads the written answers", async () => {
+    const file = path.join(directory, "answers.json")
+    const answers: RecordedAnswer[] = [
+      { name: "type", answer: "library" },
+      { name: "description", back: true },
+      { name: "repository", answer: { type: "new" } },
+    ]
+
+    writeAnswerFile(file, answers)
+    expect(readAnswerFile(file)).toEqual(answers)
+  })
+
+  test("rejects files without answers", async () => {
+    const file = path.join(directory, "settings.json")
+    writeFileSync(file, JSON.stringify({ name: "cool-package" }))
+
+    expect(() => readAnswerFile(file)).toThrow("is not an answer file")
+    expect(() => readAnswerFile(path.join(directory, "missing.json"))).toThrow("Failed to read the answers")
+  })
+})
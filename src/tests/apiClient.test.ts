@@ -0,0 +1,121 @@
+import { apiRequest, overrideBaseUrl, runWithOfflineMode } from "apiClient"
+import { createServer, IncomingMessage, Server, ServerResponse } from "http"
+import { AddressInfo } from "net"
+import { runWithIo, terminalIo } from "wizardIo"
+
+const baseUrl = "https://api.example.com"
+
+let handleRequest: (request: IncomingMessage, response: ServerResponse) => void = () => undefined
+let server: Server
+
+beforeAll(async () => {
+  server = createServer((request, response) => handleRequest(request, response))
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve))
+  overrideBaseUrl(baseUrl, `http://127.0.0.1:${(server.address() as AddressInfo).port}`)
+})
+
+afterAll(async () => {
+  overrideBaseUrl(baseUrl, undefined)
+  await new Promise(resolve => server.close(resolve))
+})
+
+describe("apiRequest", () => {
+  test("parses json responses from the overridden base url", async () => {
+    handleRequest = (request, response) => {
+      response.setHeader("Content-Type", "application/json")
+      response.end(JSON.stringify({ path: request.url }))
+    }
+
+    const result = await apiRequest(`${baseUrl}/user`)
+    expect(result).toMatchObject({ ok: true, status: 200, data: { path: "/user" } })
+  })
+
+  test("returns client errors without retrying", async () => {
+    let requests = 0
+    handleRequest = (_, response) => {
+      requests++
+      response.statusCode = 404
+      response.end(JSON.stringify({ message: "Not Found" }))
+    }
+
+    const result = await apiRequest(`${baseUrl}/repos/missing`)
+    expect(result).toMatchObject({ ok: false, type: "http", status: 404, message: "Not Found" })
+    expect(requests).toBe(1)
+  })
+
+  test("retries server errors", async () => {
+    let requests = 0
+    handleRequest = (_, response) => {
+      requests++
+      response.statusCode = requests === 1 ? 502 : 200
+      response.end(JSON.stringify({ requests }))
+    }
+
+    const result = await apiRequest(`${baseUrl}/user`, { retries: 1 })
+    expect(result).toMatchObject({ ok: true, data: { requests: 2 } })
+  })
+
+  test("does not retry changes by default", async () => {
+    let requests = 0
+    handleRequest = (_, response) => {
+      requests++
+      response.statusCode = requests === 1 ? 502 : 200
+      response.end(JSON.stringify({ requests }))
+    }
+
+    const result = await apiRequest(`${baseUrl}/user/repos`, { method: "POST", body: { name: "cool-package" } })
+    expect(result).toMatchObject({ ok: false, type: "http", status: 502 })
+    expect(requests).toBe(1)
+  })
+
+  test("waits for the rate limit to reset", async () => {
+    let requests = 0
+    handleRequest = (_, response) => {
+      requests++
+      if (requests === 1) {
+        response.statusCode = 429
+        response.setHeader("Retry-After", "1")
+      }
+      response.end(JSON.stringify({ requests }))
+    }
+    const logs: string[] = []
+
+    const result = await runWithIo({ ...terminalIo, log: message => logs.push(message) }, () =>
+      apiRequest(`${baseUrl}/user`)
+    )
+    expect(result).toMatchObject({ ok: true, data: { requests: 2 } })
+    expect(logs).toEqual([expect.stringContaining("waiting 1 seconds")])
+  })
+
+  test("does not wait longer than the maximum rate limit wait", async () => {
+    handleRequest = (_, response) => {
+      response.statusCode = 403
+      response.setHeader("Retry-After", "3600")
+      response.end()
+    }
+
+    const result = await apiRequest(`${baseUrl}/search/users`, { maxRateLimitWait: 0 })
+    expect(result).toMatchObject({ ok: false, type: "rateLimited", status: 403 })
+  })
+
+  test("times out slow responses", async () => {
+    handleRequest = (_, response) => {
+      setTimeout(() => response.end(), 500)
+    }
+
+    const result = await apiRequest(`${baseUrl}/user`, { timeout: 50, retries: 0 })
+    expect(result).toMatchObject({ ok: false, type: "timeout" })
+  })
+
+  test("does not send requests in offline mode", async () => {
+    let requests = 0
+    handleRequest = (_, response) => {
+      requests++
+      response.end()
+    }
+
+    const result = await runWithOfflineMode(true, () => apiRequest(`${baseUrl}/search/users?q=jane%40example.com`))
+    expect(result).toMatchObject({ ok: false, type: "offline" })
+    expect(requests).toBe(0)
+  })
+})
@@ -0,0 +1,53 @@
+import { overrideBaseUrl } from "apiClient"
+import { getGiteaRepos } from "createGiteaRepo"
+import { createServer, Server } from "http"
+import { AddressInfo } from "net"
+
+const host = "git.example.com"
+const apiUrl = `https://${host}/api/v1`
+
+const repo = (name: string) => ({
+  name,
+  full_name: `jane/${name}`,
+  owner: { login: "jane" },
+  private: false,
+  archived: false,
+})
+
+let server: Server
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    const url = new URL(request.url ?? "", "http://localhost")
+    if (url.pathname === "/user") {
+      response.end(JSON.stringify({ login: "jane", full_name: "Jane Doe" }))
+      return
+    }
+    // Like older gitea versions without a Link header, so only a full page tells that there is another one
+    const page = Number(url.searchParams.get("page"))
+    const pageSize = Number(url.searchParams.get("limit"))
+    const names = Array.from({ length: pageSize + 10 }, (_, index) => `repo-${index}`)
+    response.end(
+      JSON.stringify([
+        ...names.slice((page - 1) * pageSize, page * pageSize).map(repo),
+        ...(page === 1 ? [{ name: "malformed" }] : []),
+      ])
+    )
+  })
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve))
+  overrideBaseUrl(apiUrl, `http://127.0.0.1:${(server.address() as AddressInfo).port}`)
+})
+
+afterAll(async () => {
+  overrideBaseUrl(apiUrl, undefined)
+  await new Promise(resolve => server.close(resolve))
+})
+
+describe("getGiteaRepos", () => {
+  test("loads every page and skips malformed repositories", async () => {
+    const repos = await getGiteaRepos("token", host)
+
+    expect(repos).toHaveLength(60)
+    expect(repos.at(-1)?.fullName).toBe("jane/repo-59")
+  })
+})
@@ -0,0 +1,91 @@
+import { overrideBaseUrl } from "apiClient"
+import { createGithubRepo, getMissingRepoPermissions, getNextPageUrl } from "createGithubRepo"
+import { createServer, Server } from "http"
+import { AddressInfo } from "net"
+import { defaultRepositoryOptions } from "repositoryOptions"
+
+describe("getNextPageUrl", () => {
+  test("finds the next page in a link header", async () => {
+    expect(
+      getNextPageUrl(
+        '<https://api.github.com/user/repos?page=1>; rel="prev", <https://api.github.com/user/repos?page=3>; rel="next", <https://api.github.com/user/repos?page=5>; rel="last"'
+      )
+    ).toBe("https://api.github.com/user/repos?page=3")
+  })
+
+  test("returns undefined on the last page", async () => {
+    expect(getNextPageUrl('<https://api.github.com/user/repos?page=4>; rel="prev"')).toBeUndefined()
+    expect(getNextPageUrl(null)).toBeUndefined()
+  })
+})
+
+describe("getMissingRepoPermissions", () => {
+  let server: Server
+
+  beforeAll(async () => {
+    // Classic tokens send their scopes in a header, fine-grained tokens do not
+    server = createServer((request, response) => {
+      if (request.headers.authorization === "token classic") {
+        response.setHeader("X-OAuth-Scopes", "public_repo, read:org")
+      }
+      response.end(JSON.stringify({ login: "jane" }))
+    })
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve))
+    overrideBaseUrl("https://api.github.com", `http://127.0.0.1:${(server.address() as AddressInfo).port}`)
+  })
+
+  afterAll(async () => {
+    overrideBaseUrl("https://api.github.com", undefined)
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  test("checks the scopes of classic tokens", async () => {
+    expect(await getMissingRepoPermissions("classic", "github.com", "public")).toBeUndefined()
+    expect(await getMissingRepoPermissions("classic", "github.com", "private")).toMatchObject({ scopes: ["repo"] })
+  })
+
+  test("reports that fine-grained tokens can not be checked", async () => {
+    expect(await getMissingRepoPermissions("github_pat_fine", "github.com", "public")).toMatchObject({
+      unverified: true,
+    })
+  })
+})
+
+describe("createGithubRepo", () => {
+  let server: Server
+  const requests: string[] = []
+
+  beforeAll(async () => {
+    // The repository is created, but its topics can not be set
+    server = createServer((request, response) => {
+      requests.push(`${request.method} ${request.url}`)
+      response.statusCode = request.method === "PUT" ? 500 : 200
+      response.end(JSON.stringify({ login: "jane" }))
+    })
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve))
+    overrideBaseUrl("https://api.github.com", `http://127.0.0.1:${(server.address() as AddressInfo).port}`)
+  })
+
+  afterAll(async () => {
+    overrideBaseUrl("https://api.github.com", undefined)
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  test("reports the repository as created, before configuring it fails", async () => {
+    const created: string[] = []
+
+    await expect(
+      createGithubRepo(
+        "creator",
+        "jane",
+        "cool-package",
+        "",
+        "github.com",
+        { ...defaultRepositoryOptions, topics: ["typescript"] },
+        () => created.push("cool-package")
+      )
+    ).rejects.toThrow("Failed to set the repo topics")
+    expect(created).toEqual(["cool-package"])
+    expect(requests).toEqual(["GET /user", "POST /user/repos", "PUT /repos/jane/cool-package/topics"])
+  })
+})
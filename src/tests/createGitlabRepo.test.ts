@@ -0,0 +1,54 @@
+import { overrideBaseUrl } from "apiClient"
+import { getGitlabProjects } from "createGitlabRepo"
+import { createServer, Server } from "http"
+import { AddressInfo } from "net"
+
+const host = "gitlab.example.com"
+const apiUrl = `https://${host}/api/v4`
+
+const project = (path: string) => ({
+  path,
+  path_with_namespace: `jane/${path}`,
+  namespace: { full_path: "jane" },
+  visibility: "private",
+  archived: false,
+})
+
+let server: Server
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    const url = new URL(request.url ?? "", "http://localhost")
+    if (url.pathname === "/user") {
+      response.end(JSON.stringify({ id: 1, username: "jane", name: "Jane Doe" }))
+      return
+    }
+    // The first page links to the second one, which only sends x-next-page for the third one
+    const page = url.searchParams.get("page") ?? "1"
+    if (page === "1") {
+      response.setHeader("Link", `<${apiUrl}/projects?membership=true&per_page=100&page=2>; rel="next"`)
+      response.end(JSON.stringify([project("first"), { path: "malformed" }]))
+    } else if (page === "2") {
+      response.setHeader("X-Next-Page", "3")
+      response.end(JSON.stringify([project("second")]))
+    } else {
+      response.setHeader("X-Next-Page", "")
+      response.end(JSON.stringify([project("third")]))
+    }
+  })
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve))
+  overrideBaseUrl(apiUrl, `http://127.0.0.1:${(server.address() as AddressInfo).port}`)
+})
+
+afterAll(async () => {
+  overrideBaseUrl(apiUrl, undefined)
+  await new Promise(resolve => server.close(resolve))
+})
+
+describe("getGitlabProjects", () => {
+  test("loads every page and skips malformed projects", async () => {
+    const projects = await getGitlabProjects("token", host)
+
+    expect(projects.map(({ fullName }) => fullName)).toEqual(["jane/first", "jane/second", "jane/third"])
+  })
+})
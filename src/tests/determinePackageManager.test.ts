@@ -0,0 +1,89 @@
+import {
+  describePackageManagerVersion,
+  determinePackageManager,
+  getPackageManagerPin,
+  parsePackageManagerField,
+} from "determinePackageManager"
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs"
+import { tmpdir } from "os"
+import path from "path"
+import { Shell } from "sh"
+
+const shell: Shell = async () => ({ stdout: "1.22.19\n", stderr: "" })
+
+const roots: string[] = []
+
+afterAll(() => {
+  for (const root of roots) {
+    rmSync(root, { recursive: true, force: true })
+  }
+})
+
+const createProject = (files: Record<string, string>) => {
+  const root = mkdtempSync(path.join(tmpdir(), "project-"))
+  roots.push(root)
+  for (const [file, content] of Object.entries(files)) {
+    mkdirSync(path.dirname(path.join(root, file)), { recursive: true })
+    writeFileSync(path.join(root, file), content)
+  }
+  return root
+}
+
+describe("determinePackageManager", () => {
+  test("uses the lockfile of the surrounding project", async () => {
+    const root = createProject({ "yarn.lock": "", "packages/.keep": "" })
+
+    expect(await determinePackageManager(path.join(root, "packages"), shell)).toMatchObject({
+      packageManager: "yarn",
+      reason: `${path.join(root, "yarn.lock")} exists`,
+    })
+  })
+
+  test("detects bun from its lockfile", async () => {
+    const root = createProject({ "bun.lockb": "" })
+
+    expect(await determinePackageManager(root, shell)).toMatchObject({
+      packageManager: "bun",
+      reason: `${path.join(root, "bun.lockb")} exists`,
+    })
+  })
+
+  test("prefers the packageManager field over lockfiles", async () => {
+    const root = createProject({
+      "package.json": JSON.stringify({ packageManager: "pnpm@8.6.0" }),
+      "packages/legacy/package-lock.json": "{}",
+    })
+
+    expect(await determinePackageManager(path.join(root, "packages", "legacy"), shell)).toMatchObject({
+      packageManager: "pnpm",
+      pinnedVersion: "8.6.0",
+      reason: `${path.join(root, "package.json")} pins pnpm@8.6.0`,
+    })
+  })
+})
+
+describe("package manager versions", () => {
+  test("parses the packageManager field", async () => {
+    expect(parsePackageManagerField("yarn@3.6.0")).toEqual({ packageManager: "yarn", version: "3.6.0" })
+    expect(parsePackageManagerField("bower@1.8.0")).toBeUndefined()
+    expect(parsePackageManagerField("pnpm")).toBeUndefined()
+  })
+
+  test("distinguishes yarn classic from berry", async () => {
+    expect(describePackageManagerVersion("yarn", "1.22.19")).toBe("1.22.19 (classic)")
+    expect(describePackageManagerVersion("yarn", "4.0.2")).toBe("4.0.2 (berry)")
+    expect(describePackageManagerVersion("pnpm", "8.6.0")).toBe("8.6.0")
+  })
+
+  test("only pins known versions", async () => {
+    const settings = { packageManager: "pnpm" as const, packageManagerVersions: { pnpm: "8.6.0" } }
+
+    expect(getPackageManagerPin({ ...settings, pinPackageManager: true })).toBe("pnpm@8.6.0")
+    expect(getPackageManagerPin({ ...settings, pinPackageManager: false })).toBeUndefined()
+    expect(getPackageManagerPin({ packageManager: "yarn", pinPackageManager: true })).toBeUndefined()
+    // Corepack does not manage bun
+    expect(
+      getPackageManagerPin({ packageManager: "bun", packageManagerVersions: { bun: "1.1.0" }, pinPackageManager: true })
+    ).toBeUndefined()
+  })
+})
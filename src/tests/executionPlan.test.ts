@@ -0,0 +1,60 @@
+import { formatExecutionPlan } from "executionPlan"
+import { defaultRepositoryOptions } from "repositoryOptions"
+
+describe("formatExecutionPlan", () => {
+  test("lists the repository requests", async () => {
+    const plan = formatExecutionPlan({
+      directory: "/home/user/cool-package",
+      directoryExists: false,
+      packageOptions: { name: "cool-package", disableGitRepo: false },
+      initializeGitRepo: true,
+      remote: "git@github.com:user/cool-package.git",
+      repository: {
+        hostedRepository: {
+          provider: "github",
+          host: "github.com",
+          owner: "user",
+          name: "cool-package",
+          url: "git@github.com:user/cool-package.git",
+        },
+        options: defaultRepositoryOptions,
+        requests: [{ method: "POST", url: "https://api.github.com/user/repos", body: { name: "cool-package" } }],
+      },
+    })
+
+    expect(plan).toContain("Create the directory /home/user/cool-package")
+    expect(plan).toContain("Create git@github.com:user/cool-package.git on github.com")
+    expect(plan).toContain("POST https://api.github.com/user/repos")
+    expect(plan).toContain('      "name": "cool-package"')
+    expect(plan).toContain("Initialize a git repository")
+    expect(plan).toContain("Branch: the default branch")
+  })
+
+  test("explains why the git repository is skipped", async () => {
+    const plan = formatExecutionPlan({
+      directory: "/home/user/monorepo/packages/cool-package",
+      directoryExists: true,
+      packageOptions: { name: "cool-package", disableGitRepo: true },
+      initializeGitRepo: false,
+    })
+
+    expect(plan).toContain("Use the existing directory /home/user/monorepo/packages/cool-package")
+    expect(plan).toContain("No repository is created")
+    expect(plan).toContain("Skip the git repository, because the package is inside a monorepo")
+    expect(plan).toContain("Remote: none")
+  })
+
+  test("lists the changes to the workspace", async () => {
+    const plan = formatExecutionPlan({
+      directory: "/home/user/monorepo/packages/cool-package",
+      directoryExists: false,
+      packageOptions: { name: "cool-package", disableGitRepo: true },
+      initializeGitRepo: false,
+      workspaceChanges: ["Add packages/cool-package to the packages in /home/user/monorepo/pnpm-workspace.yaml"],
+    })
+
+    expect(plan).toContain(
+      "Workspace\n  Add packages/cool-package to the packages in /home/user/monorepo/pnpm-workspace.yaml"
+    )
+  })
+})
@@ -0,0 +1,28 @@
+import { fuzzyScore, rankFuzzy } from "fuzzySearch"
+
+describe("fuzzySearch", () => {
+  test("matches characters in order", async () => {
+    expect(fuzzyScore("ctt", "create-typescript-thing")).toBeDefined()
+    expect(fuzzyScore("gtc", "create-typescript-thing")).toBeUndefined()
+  })
+
+  test("ignores case and separators", async () => {
+    expect(fuzzyScore("My_Package", "my-package")).toBe(1000)
+  })
+
+  test("ranks exact, consecutive and word start matches first", async () => {
+    expect(
+      rankFuzzy("thing", ["the-thing-docs", "tooth-paste-thing-legacy", "thing", "t-h-i-n-g", "unrelated"], text => [
+        text,
+      ])
+    ).toEqual(["thing", "the-thing-docs", "tooth-paste-thing-legacy", "t-h-i-n-g"])
+  })
+
+  test("uses the best matching text of an item", async () => {
+    const repos = [
+      { owner: "someone", name: "library" },
+      { owner: "zebreus", name: "website" },
+    ]
+    expect(rankFuzzy("zeb", repos, ({ owner, name }) => [name, `${owner}/${name}`])).toEqual([repos[1]])
+  })
+})
@@ -0,0 +1,65 @@
+import { overrideBaseUrl } from "apiClient"
+import { resolveGithubToken } from "githubCredentials"
+import { createServer, Server } from "http"
+import { AddressInfo } from "net"
+import { Shell } from "sh"
+
+const enterpriseApiUrl = "https://github.example.com/api/v3"
+const tokenVariables = ["GH_TOKEN", "GITHUB_TOKEN", "GH_ENTERPRISE_TOKEN", "GITHUB_ENTERPRISE_TOKEN"]
+const environment = Object.fromEntries(tokenVariables.map(name => [name, process.env[name]]))
+
+/** A shell without git credential helpers */
+const shell: Shell = async () => {
+  throw new Error("git: 'credential-fill' is not a git command")
+}
+
+const authorizations: string[] = []
+let server: Server
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    authorizations.push(request.headers.authorization ?? "")
+    response.end(JSON.stringify({ login: "jane" }))
+  })
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve))
+  overrideBaseUrl(enterpriseApiUrl, `http://127.0.0.1:${(server.address() as AddressInfo).port}`)
+})
+
+beforeEach(() => {
+  authorizations.length = 0
+  for (const name of tokenVariables) {
+    delete process.env[name]
+  }
+})
+
+afterAll(async () => {
+  overrideBaseUrl(enterpriseApiUrl, undefined)
+  await new Promise(resolve => server.close(resolve))
+  for (const [name, value] of Object.entries(environment)) {
+    if (value === undefined) {
+      delete process.env[name]
+    } else {
+      process.env[name] = value
+    }
+  }
+})
+
+describe("resolveGithubToken", () => {
+  test("does not send the github.com token to other hosts", async () => {
+    process.env.GH_TOKEN = "github-com-token"
+
+    expect(await resolveGithubToken(shell, "github.example.com")).toEqual({ failedSources: [] })
+    expect(authorizations).toEqual([])
+  })
+
+  test("uses the enterprise token for other hosts", async () => {
+    process.env.GH_TOKEN = "github-com-token"
+    process.env.GH_ENTERPRISE_TOKEN = "enterprise-token"
+
+    expect(await resolveGithubToken(shell, "github.example.com")).toMatchObject({
+      accessToken: "enterprise-token",
+      source: "environment",
+    })
+    expect(authorizations).toEqual(["token enterprise-token"])
+  })
+})
@@ -0,0 +1,92 @@
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs"
+import { getMonorepoFiles, getMonorepoPackageJson, useSharedConfigs } from "monorepoRoot"
+import { tmpdir } from "os"
+import { PackageSettings } from "packageSettings"
+import path from "path"
+import { undoSideEffects } from "rollback"
+import { parse } from "yaml"
+
+const settings: PackageSettings = {
+  invokeDirectory: "/home/user",
+  pathInfos: {},
+  name: "acme",
+  type: "monorepo",
+  authorName: "Jane Doe",
+  authorEmail: "jane@example.com",
+  members: [
+    { name: "@acme/core", type: "library", path: "packages/core" },
+    { name: "@acme/cli", type: "application", path: "packages/cli" },
+  ],
+}
+
+describe("getMonorepoFiles", () => {
+  test("configures the workspace for pnpm", async () => {
+    const files = getMonorepoFiles({ ...settings, packageManager: "pnpm" })
+    const workspaceFile = files.find(({ file }) => file === "pnpm-workspace.yaml")
+
+    expect(parse(workspaceFile?.content ?? "")).toEqual({ packages: ["packages/*"] })
+    expect(getMonorepoPackageJson({ ...settings, packageManager: "pnpm" })).not.toHaveProperty("workspaces")
+  })
+
+  test("uses the workspaces field for npm and yarn", async () => {
+    expect(getMonorepoFiles({ ...settings, packageManager: "yarn" }).map(({ file }) => file)).not.toContain(
+      "pnpm-workspace.yaml"
+    )
+    expect(getMonorepoPackageJson({ ...settings, packageManager: "yarn" })).toMatchObject({
+      private: true,
+      author: "Jane Doe <jane@example.com>",
+      workspaces: ["packages/*"],
+      scripts: { build: "yarn workspaces run build" },
+    })
+  })
+
+  test("runs the scripts of the packages with yarn berry", async () => {
+    expect(
+      getMonorepoPackageJson({ ...settings, packageManager: "yarn", packageManagerVersions: { yarn: "4.1.0" } }).scripts
+    ).toMatchObject({ build: "yarn workspaces foreach -A -t run build" })
+  })
+
+  test("references every package in the root tsconfig", async () => {
+    const tsconfig = getMonorepoFiles(settings).find(({ file }) => file === "tsconfig.json")
+
+    expect(JSON.parse(tsconfig?.content ?? "")).toEqual({
+      files: [],
+      references: [{ path: "./packages/core" }, { path: "./packages/cli" }],
+    })
+  })
+})
+
+describe("useSharedConfigs", () => {
+  let root: string
+
+  beforeEach(() => {
+    root = mkdtempSync(path.join(tmpdir(), "monorepo-"))
+    mkdirSync(path.join(root, "packages", "core"), { recursive: true })
+  })
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true })
+  })
+
+  test("extends the base tsconfig and removes the lint configs of the package", async () => {
+    const packageDirectory = path.join(root, "packages", "core")
+    const tsconfig = '{\n  "compilerOptions": {\n    "strict": true,\n  },\n}\n'
+    writeFileSync(path.join(packageDirectory, "tsconfig.json"), tsconfig)
+    writeFileSync(path.join(packageDirectory, ".eslintrc.json"), "{}")
+    writeFileSync(path.join(packageDirectory, ".prettierrc.js"), "module.exports = {}")
+    writeFileSync(path.join(packageDirectory, "package.json"), "{}")
+
+    const sideEffects = useSharedConfigs(root, packageDirectory)
+    expect(JSON.parse(readFileSync(path.join(packageDirectory, "tsconfig.json"), "utf8"))).toEqual({
+      extends: "../../tsconfig.base.json",
+      compilerOptions: { strict: true },
+    })
+    expect(existsSync(path.join(packageDirectory, ".eslintrc.json"))).toBe(false)
+    expect(existsSync(path.join(packageDirectory, ".prettierrc.js"))).toBe(false)
+    expect(existsSync(path.join(packageDirectory, "package.json"))).toBe(true)
+
+    await undoSideEffects(sideEffects, async () => true)
+    expect(readFileSync(path.join(packageDirectory, "tsconfig.json"), "utf8")).toBe(tsconfig)
+    expect(readFileSync(path.join(packageDirectory, ".prettierrc.js"), "utf8")).toBe("module.exports = {}")
+  })
+})
@@ -0,0 +1,154 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs"
+import { addPathInfo } from "index"
+import { findWorkspace, getWorkspaceChanges, matchesWorkspaceGlobs } from "monorepoWorkspace"
+import { tmpdir } from "os"
+import path from "path"
+
+const roots: string[] = []
+
+afterAll(() => {
+  for (const root of roots) {
+    rmSync(root, { recursive: true, force: true })
+  }
+})
+
+const createWorkspace = (files: Record<string, string>) => {
+  const root = mkdtempSync(path.join(tmpdir(), "workspace-"))
+  roots.push(root)
+  mkdirSync(path.join(root, ".git"))
+  for (const [file, content] of Object.entries(files)) {
+    mkdirSync(path.dirname(path.join(root, file)), { recursive: true })
+    writeFileSync(path.join(root, file), content)
+  }
+  return root
+}
+
+/** Find the workspace of a root that must have one */
+const findExistingWorkspace = (root: string) => {
+  const workspace = findWorkspace(root)
+  expect(workspace).toBeDefined()
+  if (!workspace) {
+    throw new Error(`There is no workspace at ${root}`)
+  }
+  return workspace
+}
+
+describe("findWorkspace", () => {
+  test("detects a pnpm workspace with turbo", async () => {
+    const root = createWorkspace({ "pnpm-workspace.yaml": "packages:\n  - packages/*\n", "turbo.json": "{}" })
+
+    expect(findWorkspace(path.join(root, "packages", "new-package"))).toEqual({
+      root,
+      tools: ["pnpm", "turbo"],
+      globs: [{ file: "pnpm-workspace.yaml", globs: ["packages/*"] }],
+      packageManager: "pnpm",
+      projectReferences: false,
+    })
+  })
+
+  test("takes the package manager from the lockfile", async () => {
+    const root = createWorkspace({
+      "package.json": JSON.stringify({ workspaces: { packages: ["packages/*"] } }),
+      "yarn.lock": "",
+    })
+
+    expect(findWorkspace(path.join(root, "packages"))?.packageManager).toBe("yarn")
+  })
+
+  test("does not leave the git repository", async () => {
+    const root = createWorkspace({ "package.json": JSON.stringify({ workspaces: ["*"] }) })
+    mkdirSync(path.join(root, "nested", ".git"), { recursive: true })
+
+    expect(findWorkspace(path.join(root, "nested", "new-package"))).toBeUndefined()
+  })
+})
+
+describe("matchesWorkspaceGlobs", () => {
+  test("supports wildcards and negations", async () => {
+    expect(matchesWorkspaceGlobs(["packages/*"], "packages/cool-package")).toBe(true)
+    expect(matchesWorkspaceGlobs(["./apps/**"], "apps/web/admin")).toBe(true)
+    expect(matchesWorkspaceGlobs(["packages/*"], "tools/cool-package")).toBe(false)
+    expect(matchesWorkspaceGlobs(["packages/*", "!packages/legacy"], "packages/legacy")).toBe(false)
+  })
+})
+
+describe("getWorkspaceChanges", () => {
+  test("adds the package to the globs that do not include it yet", async () => {
+    const root = createWorkspace({
+      "pnpm-workspace.yaml": "# Our packages\npackages:\n  - packages/*\n",
+      "package.json": JSON.stringify({ workspaces: ["tools/*"] }, undefined, 4),
+    })
+
+    const { changes } = getWorkspaceChanges(findExistingWorkspace(root), path.join(root, "tools", "cool-tool"))
+    expect(changes.map(({ file }) => path.basename(file))).toEqual(["pnpm-workspace.yaml"])
+    expect(changes[0].content).toBe("# Our packages\npackages:\n  - packages/*\n  - tools/cool-tool\n")
+  })
+
+  test("keeps the indentation of json files", async () => {
+    const root = createWorkspace({ "package.json": JSON.stringify({ workspaces: ["packages/*"] }, undefined, 4) })
+
+    const { changes } = getWorkspaceChanges(findExistingWorkspace(root), path.join(root, "tools", "cool-tool"))
+    expect(changes.map(({ content }) => content)).toEqual([
+      JSON.stringify({ workspaces: ["packages/*", "tools/cool-tool"] }, undefined, 4),
+    ])
+  })
+
+  test("adds a project reference and makes the package composite", async () => {
+    const root = createWorkspace({
+      "package.json": JSON.stringify({ workspaces: ["packages/*"] }),
+      "tsconfig.json": JSON.stringify({ files: [], references: [{ path: "./packages/old-package" }] }),
+      "packages/new-package/tsconfig.json": JSON.stringify({ compilerOptions: { strict: true } }),
+    })
+
+    const { changes, manualSteps } = getWorkspaceChanges(
+      findExistingWorkspace(root),
+      path.join(root, "packages", "new-package")
+    )
+    expect(changes.map(({ content }) => JSON.parse(content) as unknown)).toEqual([
+      { files: [], references: [{ path: "./packages/old-package" }, { path: "./packages/new-package" }] },
+      { compilerOptions: { strict: true, composite: true } },
+    ])
+    expect(manualSteps).toEqual([])
+  })
+
+  test("does not change files with comments", async () => {
+    const root = createWorkspace({
+      "pnpm-workspace.yaml": "packages:\n  - packages/*\n",
+      "tsconfig.json": '{\n  // The packages\n  "references": [],\n}\n',
+    })
+
+    const { changes, manualSteps } = getWorkspaceChanges(
+      findExistingWorkspace(root),
+      path.join(root, "packages", "new-package")
+    )
+    expect(changes).toEqual([])
+    expect(manualSteps).toEqual([
+      `Add { "path": "./packages/new-package" } to the references in ${path.join(root, "tsconfig.json")}`,
+    ])
+  })
+})
+
+describe("addPathInfo", () => {
+  const getPackageManager = async (root: string, packageManagerReason: string) => {
+    const settings = await addPathInfo({
+      invokeDirectory: root,
+      path: "packages/new-package",
+      pathInfos: {},
+      packageManager: "npm",
+      packageManagerReason,
+    })
+    return settings.packageManager
+  }
+
+  test("uses the package manager of the workspace", async () => {
+    const root = createWorkspace({ "pnpm-workspace.yaml": "packages:\n  - packages/*\n" })
+
+    expect(await getPackageManager(root, "npm is installed")).toBe("pnpm")
+  })
+
+  test("keeps a package manager that was set explicitly", async () => {
+    const root = createWorkspace({ "pnpm-workspace.yaml": "packages:\n  - packages/*\n" })
+
+    expect(await getPackageManager(root, "it was set explicitly")).toBe("npm")
+  })
+})
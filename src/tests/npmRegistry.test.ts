@@ -0,0 +1,99 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs"
+import { createServer, IncomingMessage, Server } from "http"
+import { AddressInfo } from "net"
+import { checkNameAvailability, getRegistry } from "npmRegistry"
+import { tmpdir } from "os"
+import path from "path"
+
+const requests: IncomingMessage[] = []
+const roots: string[] = []
+const environment = {
+  npm_config_registry: process.env.npm_config_registry,
+  npm_config_userconfig: process.env.npm_config_userconfig,
+  ACME_TOKEN: process.env.ACME_TOKEN,
+}
+let server: Server
+let registry: string
+
+beforeAll(async () => {
+  // Stands in for a local registry like verdaccio. Only some-package is published
+  server = createServer((request, response) => {
+    requests.push(request)
+    response.statusCode = request.url === "/some-package" || request.url === "/@acme%2fsome-package" ? 200 : 404
+    response.end(JSON.stringify({}))
+  })
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve))
+  registry = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`
+  delete process.env.npm_config_registry
+  process.env.npm_config_userconfig = path.join(tmpdir(), "missing-npmrc")
+})
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve))
+  for (const [name, value] of Object.entries(environment)) {
+    if (value === undefined) {
+      delete process.env[name]
+    } else {
+      process.env[name] = value
+    }
+  }
+  for (const root of roots) {
+    rmSync(root, { recursive: true, force: true })
+  }
+})
+
+const createDirectory = () => {
+  const root = mkdtempSync(path.join(tmpdir(), "registry-"))
+  roots.push(root)
+  return root
+}
+
+const createProject = (npmrc: string) => {
+  const root = createDirectory()
+  writeFileSync(path.join(root, ".npmrc"), npmrc)
+  mkdirSync(path.join(root, "packages"))
+  return path.join(root, "packages")
+}
+
+describe("getRegistry", () => {
+  test("uses the registry of the closest .npmrc", async () => {
+    const directory = createProject("registry=http://localhost:4873\n")
+
+    expect(getRegistry("some-package", directory)).toEqual({ url: "http://localhost:4873/", token: undefined })
+  })
+
+  test("uses the registry and token of the scope", async () => {
+    process.env.ACME_TOKEN = "secret"
+    const directory = createProject(
+      [
+        "registry=http://localhost:4873/",
+        "@acme:registry=https://npm.acme.dev/",
+        "//npm.acme.dev/:_authToken=${ACME_TOKEN}",
+      ].join("\n")
+    )
+
+    expect(getRegistry("@acme/some-package", directory)).toEqual({ url: "https://npm.acme.dev/", token: "secret" })
+    expect(getRegistry("some-package", directory).token).toBeUndefined()
+  })
+
+  test("defaults to the npm registry", async () => {
+    expect(getRegistry("some-package", createDirectory()).url).toBe("https://registry.npmjs.org/")
+  })
+})
+
+describe("checkNameAvailability", () => {
+  test("checks the name on the configured registry", async () => {
+    const directory = createProject(`registry=${registry}\n//127.0.0.1:${new URL(registry).port}/:_authToken=token\n`)
+
+    expect(await checkNameAvailability("some-package", directory)).toBe("taken")
+    expect(await checkNameAvailability("@acme/some-package", directory)).toBe("taken")
+    expect(await checkNameAvailability("other-package", directory)).toBe("available")
+    expect(requests[0].headers.authorization).toBe("Bearer token")
+  })
+
+  test("can not tell if the registry is not reachable", async () => {
+    const directory = createProject("registry=http://127.0.0.1:1/\n")
+
+    expect(await checkNameAvailability("some-package", directory)).toBe("unknown")
+  })
+})
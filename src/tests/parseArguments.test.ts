@@ -0,0 +1,61 @@
+import { parseArguments } from "parseArguments"
+
+describe("parseArguments", () => {
+  test("parses flags with separate and inline values", async () => {
+    expect(parseArguments(["--name", "cool-package", "--description=A very cool package", "--yes"])).toEqual({
+      settings: { name: "cool-package", description: "A very cool package" },
+      createRepo: false,
+      yes: true,
+      dryRun: false,
+      resume: false,
+      help: false,
+    })
+  })
+
+  test("an explicit path is marked as explicit", async () => {
+    expect(parseArguments(["--path", "./packages/cool"]).settings).toEqual({
+      path: "./packages/cool",
+      explicitPath: true,
+    })
+  })
+
+  test("monorepo can be enabled and disabled", async () => {
+    expect(parseArguments(["--monorepo"]).settings.monorepo).toBe(true)
+    expect(parseArguments(["--no-monorepo"]).settings.monorepo).toBe(false)
+  })
+
+  test("collects the repository options", async () => {
+    expect(
+      parseArguments(["--visibility", "private", "--license", "none", "--topics", "cli, typescript,", "--no-issues"])
+        .settings.repositoryOptions
+    ).toEqual({ visibility: "private", licenseTemplate: "", topics: ["cli", "typescript"], hasIssues: false })
+  })
+
+  test("accepts a github token", async () => {
+    expect(parseArguments(["--github-token", "ghp_example"]).settings).toEqual({ githubToken: "ghp_example" })
+  })
+
+  test("enables the offline mode", async () => {
+    expect(parseArguments(["--offline"]).settings).toEqual({ offline: true })
+  })
+
+  test("accepts answer files", async () => {
+    expect(parseArguments(["--record", "answers.json"]).record).toBe("answers.json")
+    expect(parseArguments(["--answers=answers.json"]).answers).toBe("answers.json")
+  })
+
+  test("rejects invalid choices", async () => {
+    expect(() => parseArguments(["--type", "framework"])).toThrow("--type")
+    expect(() => parseArguments(["--package-manager", "bower"])).toThrow("--package-manager")
+  })
+
+  test("rejects invalid package names", async () => {
+    expect(() => parseArguments(["--name", "Not Valid"])).toThrow("Invalid package name")
+  })
+
+  test("rejects missing values and unknown arguments", async () => {
+    expect(() => parseArguments(["--name"])).toThrow("Missing value for --name")
+    expect(() => parseArguments(["--name", "--yes"])).toThrow("Missing value for --name")
+    expect(() => parseArguments(["--unknown"])).toThrow("Unknown argument --unknown")
+  })
+})
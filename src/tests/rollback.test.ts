@@ -0,0 +1,53 @@
+import { SideEffect, undoSideEffects } from "rollback"
+
+describe("undoSideEffects", () => {
+  test("undoes the most recent side effect first", async () => {
+    const undoneOrder: string[] = []
+    const sideEffects: SideEffect[] = ["first", "second"].map(description => ({
+      description,
+      undo: async () => {
+        undoneOrder.push(description)
+      },
+    }))
+
+    await undoSideEffects(sideEffects, async () => true)
+    expect(undoneOrder).toEqual(["second", "first"])
+  })
+
+  test("keeps side effects that were not confirmed", async () => {
+    let undone = false
+    const result = await undoSideEffects(
+      [
+        {
+          description: "Created a repository",
+          confirmation: "Delete it?",
+          undo: async () => {
+            undone = true
+          },
+        },
+      ],
+      async () => false
+    )
+
+    expect(undone).toBe(false)
+    expect(result.kept.map(({ description }) => description)).toEqual(["Created a repository"])
+  })
+
+  test("continues after a failed undo", async () => {
+    const result = await undoSideEffects(
+      [
+        { description: "Created a directory", undo: async () => undefined },
+        {
+          description: "Created a repository",
+          undo: async () => {
+            throw new Error("Missing permission")
+          },
+        },
+      ],
+      async () => true
+    )
+
+    expect(result.undone.map(({ description }) => description)).toEqual(["Created a directory"])
+    expect(result.failed.map(({ error }) => error.message)).toEqual(["Missing permission"])
+  })
+})
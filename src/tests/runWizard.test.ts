@@ -0,0 +1,337 @@
+import { RecordedAnswer, replayAnswers } from "answerFile"
+import { overrideBaseUrl } from "apiClient"
+import { mkdtempSync, rmSync } from "fs"
+import { defaultGitHostProviders, GitHostProviders } from "gitHostProviders"
+import { createServer, Server } from "http"
+import { runWizard } from "index"
+import { AddressInfo } from "net"
+import { defaultRegistry } from "npmRegistry"
+import { tmpdir } from "os"
+import path from "path"
+import prompts from "prompts"
+import { Shell } from "sh"
+import { Writable } from "stream"
+import { WizardIo } from "wizardIo"
+
+const createIo = () => {
+  const logs: string[] = []
+  const io: WizardIo = {
+    prompt: prompts,
+    log: message => logs.push(message),
+    error: message => logs.push(message),
+    output: new Writable({ write: (_chunk, _encoding, callback) => callback() }),
+  }
+  return { io, logs }
+}
+
+/** A git host that does not know the user */
+const signedOutProviders: GitHostProviders = {
+  ...defaultGitHostProviders,
+  github: {
+    ...defaultGitHostProviders.github,
+    getStoredCredentials: () => [],
+    resolveToken: async () => ({ failedSources: [] }),
+    searchUsers: async () => [],
+  },
+  gitlab: { ...defaultGitHostProviders.gitlab, findUser: async () => undefined },
+}
+
+/** A shell with a git config, but without any git repositories */
+const shell: Shell = async command => {
+  if (command === "git config --get user.name") {
+    return { stdout: "Jane Doe\n", stderr: "" }
+  }
+  if (command === "git config --get user.email") {
+    return { stdout: "jane@example.com\n", stderr: "" }
+  }
+  throw new Error("fatal: not a git repository")
+}
+
+const directories: string[] = []
+
+/** Create an empty directory to run the wizard in. It is removed after the tests */
+const createDirectory = () => {
+  const directory = mkdtempSync(path.join(tmpdir(), "wizard-"))
+  directories.push(directory)
+  return directory
+}
+
+/** The names that are published on the registry */
+const takenNames = new Set(["taken-package"])
+const registryRequests: string[] = []
+
+const environment = {
+  npm_config_registry: process.env.npm_config_registry,
+  npm_config_userconfig: process.env.npm_config_userconfig,
+}
+
+let registry: Server
+
+beforeAll(async () => {
+  // A registry of our own, so the tests do not depend on the npm registry
+  registry = createServer((request, response) => {
+    registryRequests.push(decodeURIComponent(request.url?.slice(1) ?? ""))
+    response.statusCode = takenNames.has(decodeURIComponent(request.url?.slice(1) ?? "")) ? 200 : 404
+    response.end(JSON.stringify({}))
+  })
+  await new Promise<void>(resolve => registry.listen(0, "127.0.0.1", resolve))
+  delete process.env.npm_config_registry
+  process.env.npm_config_userconfig = path.join(tmpdir(), "missing-npmrc")
+  overrideBaseUrl(defaultRegistry, `http://127.0.0.1:${(registry.address() as AddressInfo).port}/`)
+})
+
+afterAll(async () => {
+  overrideBaseUrl(defaultRegistry, undefined)
+  await new Promise(resolve => registry.close(resolve))
+  for (const [name, value] of Object.entries(environment)) {
+    if (value === undefined) {
+      delete process.env[name]
+    } else {
+      process.env[name] = value
+    }
+  }
+  for (const directory of directories) {
+    rmSync(directory, { recursive: true, force: true })
+  }
+})
+
+describe("runWizard", () => {
+  test("creates a plan without asking questions", async () => {
+    const { io } = createIo()
+    const result = await runWizard(
+      {
+        invokeDirectory: createDirectory(),
+        name: "cool-package",
+        description: "A very cool package",
+        packageManager: "npm",
+        dryRun: true,
+      },
+      { io, providers: signedOutProviders, shell, yes: true, saveSession: false }
+    )
+
+    expect(result.status).toBe("dryRun")
+    expect(result.status === "dryRun" && result.plan.packageOptions).toMatchObject({
+      name: "cool-package",
+      authorName: "Jane Doe",
+      authorEmail: "jane@example.com",
+    })
+  })
+
+  test("can be driven by scripted answers", async () => {
+    const { io } = createIo()
+    prompts.inject(["library", "scripted-package", "A scripted package", "skip", "", "create"])
+
+    const result = await runWizard(
+      { invokeDirectory: createDirectory(), packageManager: "npm", dryRun: true },
+      { io, providers: signedOutProviders, shell, saveSession: false }
+    )
+
+    expect(result.status === "dryRun" && result.plan.packageOptions).toMatchObject({
+      name: "scripted-package",
+      type: "library",
+      description: "A scripted package",
+    })
+    expect(result.status === "dryRun" && result.plan.remote).toBeUndefined()
+  })
+  test("runs wizards at the same time with their own shell and io", async () => {
+    const createShell =
+      (userName: string): Shell =>
+      async command =>
+        command === "git config --get user.name" ? { stdout: `${userName}\n`, stderr: "" } : shell(command)
+    const runDryRun = (name: string, userName: string) => {
+      const { io, logs } = createIo()
+      const result = runWizard(
+        { invokeDirectory: createDirectory(), name, packageManager: "npm", dryRun: true },
+        { io, providers: signedOutProviders, shell: createShell(userName), yes: true, saveSession: false }
+      )
+      return { result, logs }
+    }
+
+    const first = runDryRun("first-package", "Jane Doe")
+    const second = runDryRun("second-package", "John Doe")
+    const [firstResult, secondResult] = await Promise.all([first.result, second.result])
+
+    expect(firstResult.status === "dryRun" && firstResult.plan.packageOptions).toMatchObject({ authorName: "Jane Doe" })
+    expect(secondResult.status === "dryRun" && secondResult.plan.packageOptions).toMatchObject({
+      authorName: "John Doe",
+    })
+    expect(first.logs.join("\n")).toContain("first-package")
+    expect(first.logs.join("\n")).not.toContain("second-package")
+  })
+
+  test("creates a monorepo with a single package without asking questions", async () => {
+    const result = await runWizard(
+      { invokeDirectory: createDirectory(), name: "acme", type: "monorepo", packageManager: "npm", dryRun: true },
+      { io: createIo().io, providers: signedOutProviders, shell, yes: true, saveSession: false }
+    )
+
+    expect(result.status === "dryRun" && result.settings.members).toEqual([
+      { name: "acme-core", type: "library", path: "packages/core" },
+    ])
+  })
+
+  test("keeps a wizard offline, while another one runs online", async () => {
+    const runDryRun = (name: string, offline: boolean) =>
+      runWizard(
+        { invokeDirectory: createDirectory(), name, offline, packageManager: "npm", dryRun: true },
+        { io: createIo().io, providers: signedOutProviders, shell, yes: true, saveSession: false }
+      )
+
+    const results = await Promise.all([runDryRun("offline-package", true), runDryRun("online-package", false)])
+
+    expect(results.map(({ status }) => status)).toEqual(["dryRun", "dryRun"])
+    expect(registryRequests).toContain("online-package")
+    expect(registryRequests).not.toContain("offline-package")
+  })
+
+  test("recommends a name in the scope, that is not taken", async () => {
+    const invokeDirectory = createDirectory()
+    takenNames.add(`@acme/${path.basename(invokeDirectory).toLowerCase()}`)
+    takenNames.add("@acme/fancy-library")
+
+    const result = await runWizard(
+      { invokeDirectory, scope: "acme", packageManager: "npm", dryRun: true },
+      { io: createIo().io, providers: signedOutProviders, shell, yes: true, saveSession: false }
+    )
+
+    expect(result.status === "dryRun" && result.settings.name).toBe("@acme/cool-library")
+  })
+
+  test("fails without asking questions, if every recommended name is taken", async () => {
+    const invokeDirectory = createDirectory()
+    const adjectives = ["fancy", "cool", "flamboyant", "classy", "flashy", "posh"]
+    for (const name of [
+      path.basename(invokeDirectory).toLowerCase(),
+      ...adjectives.map(adjective => `${adjective}-library`),
+    ]) {
+      takenNames.add(`@taken/${name}`)
+    }
+
+    const result = await runWizard(
+      { invokeDirectory, scope: "taken", packageManager: "npm", dryRun: true },
+      { io: createIo().io, providers: signedOutProviders, shell, yes: true, saveSession: false }
+    )
+
+    expect(result).toMatchObject({ status: "failed", message: expect.stringContaining("please specify: name") })
+  })
+})
+
+describe("runWizard with recorded answers", () => {
+  const newPackageAnswers: RecordedAnswer[] = [
+    { name: "type", answer: "library" },
+    { name: "name", answer: "recorded-package" },
+    { name: "description", answer: "A recorded package" },
+    { name: "host", answer: "skip" },
+    { name: "repo", answer: "" },
+  ]
+
+  const replay = (answers: RecordedAnswer[]) =>
+    runWizard(
+      { invokeDirectory: createDirectory(), packageManager: "npm", dryRun: true },
+      { io: replayAnswers(createIo().io, answers), providers: signedOutProviders, shell, saveSession: false }
+    )
+
+  test("changes the settings in the review", async () => {
+    const answers: RecordedAnswer[] = [
+      ...newPackageAnswers,
+      { name: "selection", answer: "monorepo" },
+      { name: "monorepo", answer: true },
+      { name: "selection", answer: "create" },
+    ]
+
+    const result = await replay(answers)
+    expect(result.status === "dryRun" && result.settings.monorepo).toBe(true)
+    expect(answers).toEqual([])
+  })
+
+  test("goes back to the previous question", async () => {
+    const result = await replay([
+      ...newPackageAnswers.slice(0, 2),
+      { name: "description", back: true },
+      { name: "name", answer: "renamed-package" },
+      ...newPackageAnswers.slice(2),
+      { name: "selection", answer: "create" },
+    ])
+
+    expect(result.status === "dryRun" && result.settings.name).toBe("renamed-package")
+  })
+
+  test("creates a monorepo with its packages", async () => {
+    const result = await replay([
+      { name: "type", answer: "monorepo" },
+      ...newPackageAnswers.slice(1),
+      { name: "type", answer: "library" },
+      { name: "name", answer: "@acme/core" },
+      { name: "description", answer: "The core of acme" },
+      { name: "addMember", answer: true },
+      { name: "type", answer: "application" },
+      { name: "name", answer: "@acme/cli" },
+      { name: "description", answer: "" },
+      { name: "addMember", answer: false },
+      { name: "selection", answer: "create" },
+    ])
+
+    expect(result.status === "dryRun" && result.settings.members).toEqual([
+      { name: "@acme/core", description: "The core of acme", type: "library", path: "packages/core" },
+      { name: "@acme/cli", type: "application", path: "packages/cli" },
+    ])
+    expect(result.status === "dryRun" && result.plan.monorepo?.files).toContain("package.json")
+    expect(result.status === "dryRun" && result.plan.monorepo?.members[1].packageOptions).toMatchObject({
+      path: "recorded-package/packages/cli",
+      type: "application",
+      disableGitRepo: true,
+    })
+  })
+
+  test("suggests a scoped name, if the name is taken", async () => {
+    const answers: RecordedAnswer[] = [
+      { name: "type", answer: "library" },
+      { name: "name", answer: "taken-package" },
+      { name: "takenName", answer: "@janedoe/taken-package" },
+      ...newPackageAnswers.slice(2),
+      { name: "selection", answer: "create" },
+    ]
+    const providers: GitHostProviders = {
+      ...signedOutProviders,
+      github: {
+        ...signedOutProviders.github,
+        getStoredCredentials: () => [
+          { host: "github.com", user: "JaneDoe", accessToken: undefined, protocol: "ssh", source: "githubCli" },
+        ],
+      },
+    }
+    const { io } = createIo()
+    const choices: unknown[] = []
+    const prompt = ((questions, options) => {
+      for (const question of [questions].flat()) {
+        if (question.name === "takenName") {
+          choices.push(...(question.choices as Array<{ value: unknown }>).map(({ value }) => value))
+        }
+      }
+      return io.prompt(questions, options)
+    }) as WizardIo["prompt"]
+
+    const result = await runWizard(
+      { invokeDirectory: createDirectory(), packageManager: "npm", dryRun: true },
+      {
+        io: replayAnswers({ ...io, prompt: Object.assign(prompt, io.prompt) }, answers),
+        providers,
+        shell,
+        saveSession: false,
+      }
+    )
+
+    expect(choices[0]).toBe("@janedoe/taken-package")
+    expect(choices).toContain("taken-package")
+    expect(result.status === "dryRun" && result.settings.name).toBe("@janedoe/taken-package")
+  })
+
+  test("fails if the wizard asks another question", async () => {
+    await expect(
+      replay([
+        { name: "type", answer: "library" },
+        { name: "description", answer: "Skipped the name" },
+      ])
+    ).rejects.toThrow('The answer file expected the question "description", but the wizard asked "name"')
+  })
+})
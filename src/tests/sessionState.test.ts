@@ -0,0 +1,24 @@
+import { getSessionSnapshot } from "sessionState"
+
+describe("getSessionSnapshot", () => {
+  test("does not contain secrets", async () => {
+    const snapshot = getSessionSnapshot({
+      invokeDirectory: "/home/jane",
+      pathInfos: {},
+      name: "cool-package",
+      githubUsername: "jane",
+      githubToken: "ghp_secret",
+      githubTokenSource: "credentialStore",
+      gitlabToken: "glpat-secret",
+      giteaToken: "gitea-secret",
+    })
+
+    expect(snapshot).toEqual({ invokeDirectory: "/home/jane", name: "cool-package", githubUsername: "jane" })
+  })
+
+  test("does not contain the options of the current run", async () => {
+    const snapshot = getSessionSnapshot({ invokeDirectory: "/home/jane", pathInfos: {}, dryRun: true, offline: true })
+
+    expect(snapshot).toEqual({ invokeDirectory: "/home/jane" })
+  })
+})
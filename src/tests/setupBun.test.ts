@@ -0,0 +1,45 @@
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs"
+import { tmpdir } from "os"
+import path from "path"
+import { switchToBun } from "setupBun"
+
+describe("switchToBun", () => {
+  let directory: string
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(tmpdir(), "bun-"))
+  })
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true })
+  })
+
+  test("runs the scripts with bun and removes the npm lockfile", async () => {
+    mkdirSync(path.join(directory, "src"))
+    writeFileSync(path.join(directory, "src", "index.ts"), "")
+    writeFileSync(path.join(directory, "package-lock.json"), "{}")
+    writeFileSync(
+      path.join(directory, "package.json"),
+      JSON.stringify({ scripts: { build: "tsc", start: "node dist/index.js", test: "jest" } })
+    )
+
+    switchToBun(directory)
+
+    expect(JSON.parse(readFileSync(path.join(directory, "package.json"), "utf8"))).toEqual({
+      scripts: { build: "tsc", start: "bun run src/index.ts", test: "bun test" },
+      devDependencies: { "@types/bun": "latest" },
+    })
+    expect(existsSync(path.join(directory, "package-lock.json"))).toBe(false)
+  })
+
+  test("keeps the start script of packages without src/index.ts", async () => {
+    writeFileSync(path.join(directory, "package.json"), JSON.stringify({ scripts: { start: "node cli.js" } }))
+
+    switchToBun(directory)
+
+    expect(JSON.parse(readFileSync(path.join(directory, "package.json"), "utf8")).scripts).toEqual({
+      start: "node cli.js",
+      test: "bun test",
+    })
+  })
+})
@@ -0,0 +1,79 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs"
+import { homedir } from "os"
+import { PackageSettings } from "packageSettings"
+import { dirname } from "path"
+import { parse, stringify } from "yaml"
+
+export type UserConfig = Partial<
+  Pick<
+    PackageSettings,
+    | "scope"
+    | "type"
+    | "monorepo"
+    | "packageManager"
+    | "gitProtocol"
+    | "authorName"
+    | "authorEmail"
+    | "githubHost"
+    | "gitlabHost"
+    | "giteaHost"
+    | "offline"
+  >
+>
+
+export const userConfigPath = homedir() + "/.config/create-typescript-thing/config.yml"
+
+const isHostname = (value: string) => /^[a-z0-9.-]+(:[0-9]+)?$/i.test(value)
+
+const validators: { [key in keyof Required<UserConfig>]: (value: unknown) => boolean } = {
+  scope: value => typeof value === "string" && /^[a-z0-9-~][a-z0-9-._~]*$/.test(value),
+  type: value => value === "library" || value === "application" || value === "monorepo",
+  monorepo: value => typeof value === "boolean",
+  packageManager: value => value === "npm" || value === "pnpm" || value === "yarn" || value === "bun",
+  gitProtocol: value => value === "ssh" || value === "https",
+  authorName: value => typeof value === "string",
+  authorEmail: value => typeof value === "string",
+  githubHost: value => typeof value === "string" && isHostname(value),
+  gitlabHost: value => typeof value === "string" && isHostname(value),
+  giteaHost: value => typeof value === "string" && isHostname(value.replace(/^https?:\/\//, "").replace(/\/$/, "")),
+  offline: value => typeof value === "boolean",
+}
+
+const isConfigKey = (key: string): key is keyof UserConfig => Object.keys(validators).includes(key)
+
+/** Read the defaults from the user config file. Throws if the config file contains invalid values */
+export const getUserConfig = (): UserConfig => {
+  if (!existsSync(userConfigPath)) {
+    return {}
+  }
+
+  const parsedConfig = parse(readFileSync(userConfigPath, "utf8")) as unknown
+  if (parsedConfig === null || parsedConfig === undefined) {
+    return {}
+  }
+  if (typeof parsedConfig !== "object" || Array.isArray(parsedConfig)) {
+    throw new Error(`The config file at ${userConfigPath} needs to contain an object`)
+  }
+
+  return Object.fromEntries(
+    Object.entries(parsedConfig).flatMap(([key, value]) => {
+      if (!isConfigKey(key)) {
+        throw new Error(`Unknown key ${key} in the config file at ${userConfigPath}`)
+      }
+      if (!validators[key](value)) {
+        throw new Error(`Invalid value for ${key} in the config file at ${userConfigPath}`)
+      }
+      return [[key, value]]
+    })
+  ) as UserConfig
+}
+
+/** Store the defaults in the user config file. Undefined values are not written */
+export const setUserConfig = (config: UserConfig) => {
+  const cleanConfig = Object.fromEntries(
+    Object.entries(config).filter(([key, value]) => isConfigKey(key) && value !== undefined)
+  )
+
+  mkdirSync(dirname(userConfigPath), { recursive: true })
+  writeFileSync(userConfigPath, stringify(cleanConfig))
+}
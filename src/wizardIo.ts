@@ -0,0 +1,30 @@
+import { AsyncLocalStorage } from "async_hooks"
+import prompts from "prompts"
+
+/** How the wizard talks to the user */
+export type WizardIo = {
+  /** Asks the questions. Works like prompts, which is used for the terminal */
+  prompt: typeof prompts
+  log: (message: string) => void
+  error: (message: string) => void
+  /** Emits the keypress events of the prompts. Used to go back with escape */
+  input?: NodeJS.EventEmitter
+  /** Where the progress spinners are written to. They are not animated, if it is not a terminal */
+  output: NodeJS.WritableStream
+}
+
+export const terminalIo: WizardIo = {
+  prompt: prompts,
+  log: message => console.log(message),
+  error: message => console.error(message),
+  input: process.stdin,
+  output: process.stderr,
+}
+
+const currentIo = new AsyncLocalStorage<WizardIo>()
+
+/** Run the function with the io. Everything it calls, that is not passed an io, talks to the user through it */
+export const runWithIo = <T>(io: WizardIo, run: () => T) => currentIo.run(io, run)
+
+/** Get the io of the running wizard. Outside of a wizard, this is the terminal */
+export const getCurrentIo = () => currentIo.getStore() ?? terminalIo